@@ -7,6 +7,14 @@ interface StrategyRequest {
   availableStrategies: string[];
 }
 
+const formatSeconds = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+// e.g. "Yes, CORNER for red in 0.8s at (1000, 120)"
+const describeOutOfPlay = (outOfPlay: any) => outOfPlay
+  ? `Yes, ${outOfPlay.type} for ${outOfPlay.team} in ${outOfPlay.t.toFixed(1)}s at (${outOfPlay.x.toFixed(0)}, ${outOfPlay.y.toFixed(0)})`
+  : 'No';
+
 export async function POST(request: NextRequest) {
   try {
     const { playerKnowledge, availableStrategies }: StrategyRequest = await request.json();
@@ -30,6 +38,8 @@ export async function POST(request: NextRequest) {
 - Team: ${playerKnowledge.team === 'red' ? 'Red (Player FC)' : 'Blue (CPU United)'}
 - Role: ${playerKnowledge.myRole === 'GK' ? 'Goalkeeper' : 'Field Player'}
 - Score: Red ${playerKnowledge.currentScore.red} - ${playerKnowledge.currentScore.blue} Blue
+- Match Clock: ${playerKnowledge.matchClock.label} ${playerKnowledge.matchClock.display} (${formatSeconds(playerKnowledge.matchClock.secondsRemainingInPeriod)} left in this period, ${formatSeconds(playerKnowledge.matchClock.secondsRemainingInMatch)} of regulation time left in the match)
+- Stamina: ${Math.round(playerKnowledge.myStamina * 100)}%${playerKnowledge.myStamina < 0.5 ? ' (tired: slower and weaker kicks until recovered)' : ''}
 - Current Strategy: ${playerKnowledge.myCurrentStrategy}
 - My Goal: ${playerKnowledge.myGoalSide}
 - Opponent Goal: ${playerKnowledge.opponentGoalSide}
@@ -37,12 +47,16 @@ export async function POST(request: NextRequest) {
 **Trajectory Analysis:**
 - Ball landing position: (${playerKnowledge.ballPrediction.landingPosition?.x.toFixed(0)}, ${playerKnowledge.ballPrediction.landingPosition?.y.toFixed(0)})
 - Time until ball stops: ${playerKnowledge.ballPrediction.timeToStop.toFixed(1)}s
+- Ball going out of play: ${describeOutOfPlay(playerKnowledge.ballPrediction.outOfPlay)}
 - Can I intercept? ${playerKnowledge.canInterceptBall ? `Yes, in ${playerKnowledge.timeToInterceptBall?.toFixed(1)}s` : 'No'}
 - Teammates who can intercept: ${playerKnowledge.teammatePredictions.filter((t: any) => t.canInterceptBall).length}
 - Opponent threats: ${playerKnowledge.opponentPredictions.filter((o: any) => o.canInterceptBall).length}
 
 **Teammate Strategies:**
-${playerKnowledge.teammateStrategies.map((t: any) => `- Player ${t.playerId}: ${t.strategy}`).join('\n')}
+${playerKnowledge.teammateStrategies.map((t: any) => {
+  const stamina = playerKnowledge.teammateStamina.find((s: any) => s.playerId === t.playerId)?.stamina;
+  return `- Player ${t.playerId}: ${t.strategy}${stamina !== undefined ? ` (stamina ${Math.round(stamina * 100)}%)` : ''}`;
+}).join('\n')}
 
 **Available Strategies:**
 ${availableStrategies.join(', ')}
@@ -54,6 +68,8 @@ ${playerKnowledge.myRole === 'GK' ? playerKnowledge.roleDescriptions.GK : player
 - Winning: ${playerKnowledge.whenToUseStrategies.winning}
 - Losing: ${playerKnowledge.whenToUseStrategies.losing}
 - Tied: ${playerKnowledge.whenToUseStrategies.tied}
+- Late in the match: protect a lead or commit more players forward when behind with little time left
+- Tired: sprinting drains stamina and jogging or stoppages restore it. Below 50% you are slower and kick weaker, so pick a less demanding strategy (${playerKnowledge.lowEffortStrategies.join(', ') || 'none defined'}) to recover unless the game needs you
 
 Based on the FOV screenshots (showing your recent field of view) and all the above information, decide:
 1. Should you change your strategy or keep it the same?
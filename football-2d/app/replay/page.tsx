@@ -0,0 +1,101 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import ReplayViewer from '@/components/ReplayViewer';
+import { ReplayFile } from '@/types/replay';
+import { validateReplay } from '@/utils/replay';
+
+export default function ReplayPage() {
+  const [replay, setReplay] = useState<ReplayFile | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [hasLastMatch, setHasLastMatch] = useState(false);
+
+  useEffect(() => {
+    setHasLastMatch(!!localStorage.getItem('lastReplay'));
+  }, []);
+
+  const loadReplay = (text: string) => {
+    try {
+      const parsed = JSON.parse(text);
+      const validation = validateReplay(parsed);
+      if (!validation.valid) {
+        setErrors(validation.errors);
+        return;
+      }
+      setErrors([]);
+      setReplay(parsed as ReplayFile);
+    } catch (e) {
+      setErrors([`JSON Parse Error: ${(e as Error).message}`]);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    loadReplay(await file.text());
+    e.target.value = '';
+  };
+
+  const loadLastMatch = () => {
+    const stored = localStorage.getItem('lastReplay');
+    if (stored) loadReplay(stored);
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-white p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h1 className="text-4xl font-bold mb-2">
+                🎞️ Match Replays
+              </h1>
+              <p className="text-zinc-400">
+                Re-watch recorded matches, scrub through key moments and review AI strategy decisions
+              </p>
+            </div>
+            <Link
+              href="/"
+              className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors"
+            >
+              ← Back to Game
+            </Link>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded cursor-pointer">
+              Open Replay File
+              <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+            </label>
+            <button
+              onClick={loadLastMatch}
+              disabled={!hasLastMatch}
+              className="px-3 py-1 bg-zinc-700 hover:bg-zinc-600 disabled:opacity-40 disabled:cursor-not-allowed text-white text-sm rounded"
+            >
+              Load Last Match
+            </button>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="mt-4 p-3 bg-red-900/30 border border-red-700 rounded">
+              <p className="text-red-400 font-semibold text-sm mb-1">Invalid replay:</p>
+              <ul className="list-disc list-inside text-red-300 text-sm">
+                {errors.map((error, i) => <li key={i}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {replay ? (
+          <ReplayViewer replay={replay} />
+        ) : (
+          <div className="bg-zinc-900 border border-zinc-700 rounded-lg p-6 text-center text-zinc-400 text-sm">
+            Open a replay file downloaded from the game with 💾 Replay, or load the last match played in this browser.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
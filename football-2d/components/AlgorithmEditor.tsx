@@ -165,7 +165,7 @@ export default function AlgorithmEditor({ onAlgorithmSubmit, currentAlgorithm }:
     friction: 0-1,           // Base friction coefficient
     timeStep: number,        // Simulation step (seconds)
     maxPredictionTime: num,  // Max lookahead time
-    bounceEnergyLoss: 0-1,   // Energy lost on wall bounce
+    bounceEnergyLoss?: 0-1,  // Unused: balls go out of play at the lines
     stopThreshold: number    // Min speed before stopping
   },
 
@@ -182,6 +182,14 @@ export default function AlgorithmEditor({ onAlgorithmSubmit, currentAlgorithm }:
     surfaceFrictionZones?: [...] // Define field zones
   },
 
+  ballPhysics?: {
+    mass: number,
+    radius: number,
+    spinDecay?: number,         // 0-1, spin lost per step
+    magnusEffect?: boolean,     // Curve the path with the ball's spin
+    magnusCoefficient?: number  // Path turn per step per unit of spin
+  },
+
   metadata: {
     dateCreated: ISO date,
     tags: string[],
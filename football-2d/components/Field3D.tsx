@@ -5,12 +5,15 @@ import { Canvas } from '@react-three/fiber';
 import { OrbitControls, PerspectiveCamera, Text } from '@react-three/drei';
 import * as THREE from 'three';
 import { getPlayerStrategy } from './StrategyPanel';
+import { StrategyDefinition } from '../types/strategy';
+import { MatchConditions } from '../types/conditions';
 
 // Constants from main game
 const FIELD_WIDTH = 1000;
 const FIELD_HEIGHT = 600;
 const GOAL_TOP = 240;
 const GOAL_BOTTOM = 360;
+const FULL_WIND = 0.06; // Wind drawn with the longest arrow, px/tick^2
 
 interface Player {
   id: string;
@@ -19,13 +22,17 @@ interface Player {
   vx: number;
   vy: number;
   role: 'GK' | 'FIELD';
+  position: 'GK' | 'DEF' | 'MID' | 'FWD';
 }
 
 interface Ball {
   x: number;
   y: number;
+  z: number;
   vx: number;
   vy: number;
+  vz: number;
+  spin: number;
 }
 
 interface LockInfo {
@@ -38,6 +45,8 @@ interface Field3DProps {
   blueTeam: Player[];
   ball: Ball;
   lockedPlayers: Map<string, LockInfo>;
+  strategies: Map<string, StrategyDefinition>;
+  conditions?: MatchConditions;
   announcerMsg: string;
 }
 
@@ -175,16 +184,14 @@ const Player3D = ({
   player,
   isRed,
   isLocked,
-  ball,
-  team,
-  lockedPlayers
+  lockedPlayers,
+  strategy
 }: {
   player: Player;
   isRed: boolean;
   isLocked: boolean;
-  ball: Ball;
-  team: Player[];
   lockedPlayers: Map<string, LockInfo>;
+  strategy: StrategyDefinition;
 }) => {
   const meshRef = useRef<THREE.Mesh>(null);
   const [x, y, z] = to3D(player.x, player.y, 1.2);
@@ -192,7 +199,7 @@ const Player3D = ({
   const color = isLocked ? '#f59e0b' : (isRed ? '#dc2626' : '#2563eb');
 
   // Get strategy icon
-  const { icon } = getPlayerStrategy(player, isRed, ball, team, lockedPlayers);
+  const { icon } = getPlayerStrategy(player, isRed, lockedPlayers, strategy);
 
   return (
     <group position={[x, y, z]}>
@@ -253,7 +260,7 @@ const Player3D = ({
 
 // 3D Ball Component
 const Ball3D = ({ ball }: { ball: Ball }) => {
-  const [x, y, z] = to3D(ball.x, ball.y, 0.4);
+  const [x, y, z] = to3D(ball.x, ball.y, 0.4 + ball.z / 10);
 
   return (
     <mesh position={[x, y, z]} castShadow>
@@ -378,8 +385,45 @@ const Goal = ({ isLeft }: { isLeft: boolean }) => {
   );
 };
 
+// Match conditions: a wet sheen, rough (brown) and slick (blue) zones and a wind arrow above the centre spot
+const Weather = ({ conditions }: { conditions: MatchConditions }) => {
+  const { wind } = conditions;
+  const strength = Math.min(1, Math.hypot(wind.x, wind.y) / FULL_WIND);
+  const length = 3 + 7 * strength;
+
+  return (
+    <group>
+      {conditions.pitch === 'WET' && (
+        <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.007, 0]}>
+          <planeGeometry args={[FIELD_WIDTH / 10, FIELD_HEIGHT / 10]} />
+          <meshStandardMaterial color="#0c4a6e" transparent opacity={0.25} roughness={0.1} metalness={0.3} />
+        </mesh>
+      )}
+      {conditions.zones.map((z, i) => (
+        <mesh key={i} rotation={[-Math.PI / 2, 0, 0]} position={to3D((z.x1 + z.x2) / 2, (z.y1 + z.y2) / 2, 0.008)}>
+          <planeGeometry args={[(z.x2 - z.x1) / 10, (z.y2 - z.y1) / 10]} />
+          <meshBasicMaterial color={z.frictionMultiplier > 1 ? '#78350f' : '#7dd3fc'} transparent opacity={0.4} />
+        </mesh>
+      ))}
+      {strength > 0 && (
+        // Turning about the vertical axis swings +x towards -z, the way field y runs
+        <group position={[0, 12, 0]} rotation={[0, Math.atan2(wind.y, wind.x), 0]}>
+          <mesh rotation={[0, 0, -Math.PI / 2]}>
+            <cylinderGeometry args={[0.15, 0.15, length, 8]} />
+            <meshBasicMaterial color="#e0f2fe" transparent opacity={0.7} />
+          </mesh>
+          <mesh position={[length / 2, 0, 0]} rotation={[0, 0, -Math.PI / 2]}>
+            <coneGeometry args={[0.5, 1.2, 12]} />
+            <meshBasicMaterial color="#e0f2fe" transparent opacity={0.7} />
+          </mesh>
+        </group>
+      )}
+    </group>
+  );
+};
+
 // Main Scene
-const Scene = ({ redTeam, blueTeam, ball, lockedPlayers }: Field3DProps) => {
+const Scene = ({ redTeam, blueTeam, ball, lockedPlayers, strategies, conditions }: Field3DProps) => {
   return (
     <>
       {/* Lighting - Brighter and more vibrant */}
@@ -440,6 +484,7 @@ const Scene = ({ redTeam, blueTeam, ball, lockedPlayers }: Field3DProps) => {
       </lineSegments>
 
       <FieldMarkings />
+      {conditions && <Weather conditions={conditions} />}
       <Goal isLeft={true} />
       <Goal isLeft={false} />
 
@@ -450,9 +495,8 @@ const Scene = ({ redTeam, blueTeam, ball, lockedPlayers }: Field3DProps) => {
           player={p}
           isRed={true}
           isLocked={lockedPlayers.has(p.id)}
-          ball={ball}
-          team={redTeam}
           lockedPlayers={lockedPlayers}
+          strategy={strategies.get(p.id)!}
         />
       ))}
       {blueTeam.map(p => (
@@ -461,9 +505,8 @@ const Scene = ({ redTeam, blueTeam, ball, lockedPlayers }: Field3DProps) => {
           player={p}
           isRed={false}
           isLocked={false}
-          ball={ball}
-          team={blueTeam}
           lockedPlayers={lockedPlayers}
+          strategy={strategies.get(p.id)!}
         />
       ))}
 
@@ -0,0 +1,138 @@
+'use client';
+
+import { ArrowRight, CloudRain, FastForward, Wind } from 'lucide-react';
+import {
+  STATE,
+  FIELD_WIDTH,
+  FIELD_HEIGHT,
+  PENALTY_AREA_DEPTH,
+  PENALTY_AREA_TOP,
+  PENALTY_AREA_BOTTOM,
+  PENALTY_SPOT_DISTANCE
+} from '../utils/matchEngine';
+import { CALM_CONDITIONS } from '../utils/matchConditions';
+import { Player, Ball, LockInfo } from '../types/match';
+import { MatchConditions } from '../types/conditions';
+
+const PENALTY_AREA_STYLE = {
+  top: `${(PENALTY_AREA_TOP/FIELD_HEIGHT)*100}%`,
+  width: `${(PENALTY_AREA_DEPTH/FIELD_WIDTH)*100}%`,
+  height: `${((PENALTY_AREA_BOTTOM - PENALTY_AREA_TOP)/FIELD_HEIGHT)*100}%`
+};
+const FULL_WIND = 0.06; // Wind drawn at full strength in the indicator, px/tick^2
+
+// Top-down 2D pitch used by the live game and the replay viewer
+export const MainField = ({ redTeam, blueTeam, ball, lockedPlayers, matchState, conditions, announcerMsg }: {
+  redTeam: Player[];
+  blueTeam: Player[];
+  ball: Ball;
+  lockedPlayers: Map<string, LockInfo>;
+  matchState: string;
+  conditions?: MatchConditions;
+  announcerMsg: string;
+}) => (
+  <div
+      className="relative bg-emerald-600 rounded-lg overflow-hidden border-4 border-zinc-800 shadow-2xl mb-8 select-none"
+      style={{ width: '100%', maxWidth: '700px', aspectRatio: '5/3' }}
+  >
+      {/* Field Texture */}
+      <div className="absolute inset-0 opacity-20 bg-[linear-gradient(90deg,transparent_49%,rgba(0,0,0,0.1)_50%)] bg-[length:100px_100%]" />
+
+      {/* Match conditions: rough patches brown, slick ones blue, a wet pitch tinted */}
+      {conditions?.pitch === 'WET' && <div className="absolute inset-0 bg-sky-900/25" />}
+      {conditions?.zones.map((z, i) => (
+        <div key={i}
+            className={`absolute ${z.frictionMultiplier > 1 ? 'bg-amber-900/40' : 'bg-sky-300/30'}`}
+            style={{
+              left: `${(z.x1/FIELD_WIDTH)*100}%`,
+              top: `${(z.y1/FIELD_HEIGHT)*100}%`,
+              width: `${((z.x2 - z.x1)/FIELD_WIDTH)*100}%`,
+              height: `${((z.y2 - z.y1)/FIELD_HEIGHT)*100}%`
+            }}
+            title={`Ball slows ${z.frictionMultiplier}x as fast here`}
+        />
+      ))}
+
+      {/* Lines */}
+      <div className="absolute inset-8 border-2 border-white/40 rounded-sm" />
+      <div className="absolute top-0 bottom-0 left-1/2 w-0.5 bg-white/40" />
+      <div className="absolute top-1/2 left-1/2 w-32 h-32 border-2 border-white/40 rounded-full -translate-x-1/2 -translate-y-1/2" />
+      <div className="absolute top-1/2 left-1/2 w-1 h-1 bg-white/60 rounded-full -translate-x-1/2 -translate-y-1/2" />
+
+      {/* Penalty Areas (same bounds the engine uses for penalties) */}
+      <div className="absolute left-0 border-r-2 border-y-2 border-white/40" style={PENALTY_AREA_STYLE} />
+      <div className="absolute right-0 border-l-2 border-y-2 border-white/40" style={PENALTY_AREA_STYLE} />
+      <div className="absolute w-1 h-1 bg-white/60 rounded-full -translate-x-1/2 -translate-y-1/2" style={{ left: `${(PENALTY_SPOT_DISTANCE/FIELD_WIDTH)*100}%`, top: '50%' }} />
+      <div className="absolute w-1 h-1 bg-white/60 rounded-full -translate-x-1/2 -translate-y-1/2" style={{ left: `${(1 - PENALTY_SPOT_DISTANCE/FIELD_WIDTH)*100}%`, top: '50%' }} />
+
+      {/* Goals */}
+      <div className="absolute left-0 top-1/2 -translate-y-1/2 w-2 h-32 bg-zinc-200/50 border-r-2 border-white/80" />
+      <div className="absolute right-0 top-1/2 -translate-y-1/2 w-2 h-32 bg-zinc-200/50 border-l-2 border-white/80" />
+
+      {/* Entities */}
+      {blueTeam.map(p => (
+          <div key={p.id}
+              className="absolute w-5 h-5 bg-blue-600 rounded-full border-2 border-white shadow-sm flex items-center justify-center z-10"
+              style={{ left: `${(p.x/FIELD_WIDTH)*100}%`, top: `${(p.y/FIELD_HEIGHT)*100}%`, transform: 'translate(-50%, -50%)' }}
+          >
+             <span className="text-[8px] text-white font-bold">{p.id.replace('b','')}</span>
+          </div>
+      ))}
+      {redTeam.map(p => {
+          const isLocked = lockedPlayers.has(p.id);
+          return (
+            <div key={p.id}
+                className={`absolute w-5 h-5 rounded-full border-2 shadow-sm flex items-center justify-center z-10
+                  ${isLocked ? 'bg-amber-500 border-amber-200' : 'bg-red-600 border-white'}`}
+                style={{ left: `${(p.x/FIELD_WIDTH)*100}%`, top: `${(p.y/FIELD_HEIGHT)*100}%`, transform: 'translate(-50%, -50%)' }}
+            >
+              <span className="text-[8px] text-white font-bold">{p.id.replace('r','')}</span>
+              {isLocked && <div className="absolute -top-3 w-2 h-2 border border-amber-400 rounded-full animate-ping" />}
+            </div>
+          );
+      })}
+
+      {/* A ball in the air is drawn above its shadow and slightly larger */}
+      {ball.z > 1 && (
+        <div
+            className="absolute w-3 h-1.5 bg-black/40 rounded-full z-10"
+            style={{ left: `${(ball.x/FIELD_WIDTH)*100}%`, top: `${(ball.y/FIELD_HEIGHT)*100}%`, transform: 'translate(-50%, -50%)' }}
+        />
+      )}
+      <div
+          className="absolute w-3.5 h-3.5 bg-white rounded-full shadow-md z-20 border border-zinc-300"
+          style={{ left: `${(ball.x/FIELD_WIDTH)*100}%`, top: `${((ball.y - ball.z)/FIELD_HEIGHT)*100}%`, transform: `translate(-50%, -50%) scale(${1 + ball.z / 80})` }}
+      />
+
+      {/* Weather badge; the wind arrow is brighter the harder it blows */}
+      {conditions && conditions.id !== CALM_CONDITIONS.id && (
+        <div className="absolute bottom-2 left-2 z-30 flex items-center gap-1 bg-zinc-900/70 px-2 py-1 rounded-full text-[10px] text-white pointer-events-none">
+          {conditions.pitch === 'WET' ? <CloudRain size={12} /> : <Wind size={12} />}
+          {(conditions.wind.x !== 0 || conditions.wind.y !== 0) && (
+            <ArrowRight
+              size={12}
+              style={{
+                transform: `rotate(${Math.atan2(conditions.wind.y, conditions.wind.x)}rad)`,
+                opacity: 0.4 + 0.6 * Math.min(1, Math.hypot(conditions.wind.x, conditions.wind.y) / FULL_WIND)
+              }}
+            />
+          )}
+          {conditions.label}
+        </div>
+      )}
+
+      {/* Announcer Banner (Subtle Top Bar) */}
+      {announcerMsg && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30 pointer-events-none">
+           <div className="bg-zinc-900/90 border border-white/10 px-6 py-2 rounded-full shadow-2xl animate-in slide-in-from-top-4 fade-in duration-300">
+              <h2 className="text-xl font-black italic text-white tracking-widest uppercase drop-shadow-md text-center flex items-center gap-2">
+                {matchState === STATE.RESETTING && <FastForward size={16} className="animate-pulse text-emerald-400"/>}
+                {announcerMsg}
+              </h2>
+           </div>
+        </div>
+      )}
+  </div>
+);
+
+export default MainField;
@@ -4,6 +4,9 @@ import { useRef, useEffect } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { PerspectiveCamera } from '@react-three/drei';
 import * as THREE from 'three';
+import { BehaviourNode } from '@/types/behaviour';
+import { describeBehaviourNode } from '@/utils/behaviourTree';
+import { OutOfPlay } from '@/utils/trajectoryPredictor';
 
 // Constants from main game
 const FIELD_WIDTH = 1000;
@@ -23,8 +26,11 @@ interface Player {
 interface Ball {
   x: number;
   y: number;
+  z: number;
   vx: number;
   vy: number;
+  vz: number;
+  spin: number;
 }
 
 interface TrajectoryPoint {
@@ -40,6 +46,7 @@ interface BallPrediction {
   landingPosition: { x: number; y: number } | null;
   timeToStop: number;
   willExitField: boolean;
+  outOfPlay: (OutOfPlay & { t: number }) | null;
 }
 
 interface PlayerPrediction {
@@ -64,6 +71,14 @@ interface PlayerKnowledge {
   myGoalSide: 'left' | 'right';
   opponentGoalSide: 'left' | 'right';
   myRole: 'GK' | 'FIELD';
+  matchClock: {
+    label: string;
+    display: string;
+    secondsRemainingInPeriod: number;
+    secondsRemainingInMatch: number;
+  };
+  myStamina: number;
+  teammateStamina: { playerId: string; stamina: number }[];
 
   // Game knowledge
   roleDescriptions: {
@@ -80,6 +95,7 @@ interface PlayerKnowledge {
     losing: string;
     tied: string;
   };
+  lowEffortStrategies: string[]; // Strategies a tired player can recover in
 
   // Trajectory predictions
   ballPrediction: BallPrediction;
@@ -106,6 +122,8 @@ interface PlayerPOVProps {
   ball: Ball;
   isRed: boolean;
   knowledge: PlayerKnowledge;
+  behaviour?: BehaviourNode;      // Tree of the player's team controller
+  activeNode?: number[];          // Child indices to the action that moved the player this tick
   onCanvasReady?: (playerId: string, canvas: HTMLCanvasElement) => void;
 }
 
@@ -118,6 +136,38 @@ const to3D = (x: number, y: number, z: number = 0) => {
   ] as [number, number, number];
 };
 
+// Below half stamina players lose speed and kick power
+const staminaColor = (stamina: number) =>
+  stamina > 0.5 ? 'text-emerald-400' : stamina > 0.25 ? 'text-amber-400' : 'text-red-400';
+const staminaBarColor = (stamina: number) =>
+  stamina > 0.5 ? 'bg-emerald-500' : stamina > 0.25 ? 'bg-amber-500' : 'bg-red-500';
+
+// One behaviour tree node and its children; nodes on the active path are lit up
+const BehaviourTreeNode = ({ node, path, active }: { node: BehaviourNode; path: number[]; active: boolean }) => {
+  const isLeaf = node.type === 'condition' || node.type === 'action';
+  const color = !active ? 'text-zinc-500' : node.type === 'action' ? 'text-emerald-400 font-bold' : 'text-emerald-300';
+  return (
+    <div>
+      <div className={`text-xs font-mono ${color}`}>
+        {active ? '▸ ' : ''}{describeBehaviourNode(node)}
+      </div>
+      {!isLeaf && (
+        <div className="ml-3 border-l border-zinc-700 pl-2">
+          {node.children.map((child, idx) => (
+            <BehaviourTreeNode
+              key={idx}
+              node={child}
+              path={idx === path[0] ? path.slice(1) : []}
+              // A sequence passed every child before the chosen one; a selector's earlier children failed
+              active={active && (idx === path[0] || (node.type === 'sequence' && idx < path[0]))}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // Simple 3D Player for POV
 const SimplePOVPlayer3D = ({ player, isRed, isSelf }: { player: Player; isRed: boolean; isSelf: boolean }) => {
   if (isSelf) return null; // Don't render the player we're viewing from
@@ -141,7 +191,7 @@ const SimplePOVPlayer3D = ({ player, isRed, isSelf }: { player: Player; isRed: b
 
 // Simple Ball for POV
 const SimpleBall3D = ({ ball }: { ball: Ball }) => {
-  const [x, y, z] = to3D(ball.x, ball.y, 0.4);
+  const [x, y, z] = to3D(ball.x, ball.y, 0.4 + ball.z / 10);
   return (
     <mesh position={[x, y, z]} castShadow>
       <sphereGeometry args={[0.4, 32, 32]} />
@@ -157,7 +207,7 @@ const CameraController = ({ player, ball }: { player: Player; ball: Ball }) => {
   useFrame(() => {
     if (cameraRef.current) {
       const [px, py, pz] = to3D(player.x, player.y, 1.8);
-      const [bx, by, bz] = to3D(ball.x, ball.y, 0.4);
+      const [bx, by, bz] = to3D(ball.x, ball.y, 0.4 + ball.z / 10);
 
       // Update camera position
       cameraRef.current.position.set(px, py, pz);
@@ -490,7 +540,7 @@ const POVScene = ({ player, redTeam, blueTeam, ball, isRed }: POVSceneProps) =>
   );
 };
 
-export const PlayerPOV = ({ player, redTeam, blueTeam, ball, isRed, knowledge, onCanvasReady }: PlayerPOVProps) => {
+export const PlayerPOV = ({ player, redTeam, blueTeam, ball, isRed, knowledge, behaviour, activeNode, onCanvasReady }: PlayerPOVProps) => {
   const canvasRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -573,22 +623,66 @@ export const PlayerPOV = ({ player, redTeam, blueTeam, ball, isRed, knowledge, o
               </div>
             </div>
 
+            {/* Match Clock */}
+            <div className="bg-zinc-900/50 rounded p-2 flex items-center justify-between">
+              <span className="text-[10px] text-zinc-500 uppercase">Match Clock</span>
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-mono font-bold text-zinc-300">{knowledge.matchClock.display}</span>
+                <span className="text-[10px] text-zinc-500">{knowledge.matchClock.label}</span>
+                <span className="text-[10px] text-amber-400">{Math.floor(knowledge.matchClock.secondsRemainingInMatch / 60)}:{String(knowledge.matchClock.secondsRemainingInMatch % 60).padStart(2, '0')} left</span>
+              </div>
+            </div>
+
+            {/* Stamina */}
+            <div className="bg-zinc-900/50 rounded p-2">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-[10px] text-zinc-500 uppercase">Stamina</span>
+                <span className={`text-xs font-mono font-bold ${staminaColor(knowledge.myStamina)}`}>{Math.round(knowledge.myStamina * 100)}%</span>
+              </div>
+              <div className="h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                <div className={`h-full ${staminaBarColor(knowledge.myStamina)}`} style={{ width: `${knowledge.myStamina * 100}%` }} />
+              </div>
+            </div>
+
             {/* My Strategy */}
             <div className="bg-zinc-900/50 rounded p-2">
               <span className="text-[10px] text-zinc-500 uppercase block mb-1">My Current Strategy</span>
               <span className="text-xs font-bold text-yellow-400">{knowledge.myCurrentStrategy}</span>
             </div>
 
+            {/* Behaviour Tree */}
+            <div className="bg-zinc-900/50 rounded p-2">
+              <span className="text-[10px] text-zinc-500 uppercase block mb-2">🌳 Behaviour Tree</span>
+              {!behaviour ? (
+                <p className="text-xs text-zinc-500 italic">This team&apos;s controller has no behaviour tree</p>
+              ) : (
+                <>
+                  {!activeNode && (
+                    <p className="text-xs text-amber-400 mb-2">
+                      Moved by the engine this tick ({knowledge.myRole === 'GK' ? 'goalkeeper' : 'set piece or sector lock'})
+                    </p>
+                  )}
+                  <BehaviourTreeNode node={behaviour} path={activeNode ?? []} active={!!activeNode} />
+                </>
+              )}
+            </div>
+
             {/* Teammate Strategies */}
             <div className="bg-zinc-900/50 rounded p-2">
               <span className="text-[10px] text-zinc-500 uppercase block mb-2">Teammate Strategies</span>
               <div className="space-y-1">
-                {knowledge.teammateStrategies.map((teammate, idx) => (
-                  <div key={idx} className="flex items-center justify-between text-xs">
-                    <span className="text-zinc-400">Player {teammate.playerId.replace(/[rb]/, '')}</span>
-                    <span className="text-zinc-300 font-medium">{teammate.strategy}</span>
-                  </div>
-                ))}
+                {knowledge.teammateStrategies.map((teammate, idx) => {
+                  const stamina = knowledge.teammateStamina.find(t => t.playerId === teammate.playerId)?.stamina;
+                  return (
+                    <div key={idx} className="flex items-center justify-between text-xs">
+                      <span className="text-zinc-400">Player {teammate.playerId.replace(/[rb]/, '')}</span>
+                      <span className="text-zinc-300 font-medium">
+                        {teammate.strategy}
+                        {stamina !== undefined && <span className={`ml-2 font-mono ${staminaColor(stamina)}`}>{Math.round(stamina * 100)}%</span>}
+                      </span>
+                    </div>
+                  );
+                })}
               </div>
             </div>
 
@@ -616,6 +710,15 @@ export const PlayerPOV = ({ player, redTeam, blueTeam, ball, isRed, knowledge, o
                     </span>
                   </div>
                 </div>
+                {knowledge.ballPrediction.outOfPlay && (
+                  <div className="text-[11px] mt-1">
+                    <span className="text-zinc-500">Going out:</span>
+                    <span className="text-red-400 ml-1 font-mono">
+                      {knowledge.ballPrediction.outOfPlay.type} ({knowledge.ballPrediction.outOfPlay.team}) in {knowledge.ballPrediction.outOfPlay.t.toFixed(1)}s
+                      at ({knowledge.ballPrediction.outOfPlay.x.toFixed(0)}, {knowledge.ballPrediction.outOfPlay.y.toFixed(0)})
+                    </span>
+                  </div>
+                )}
               </div>
 
               {/* My Interception */}
@@ -723,6 +826,7 @@ export const PlayerPOV = ({ player, redTeam, blueTeam, ball, isRed, knowledge, o
                   <div><span className="text-green-400 font-medium">Winning:</span> {knowledge.whenToUseStrategies.winning}</div>
                   <div><span className="text-red-400 font-medium">Losing:</span> {knowledge.whenToUseStrategies.losing}</div>
                   <div><span className="text-yellow-400 font-medium">Tied:</span> {knowledge.whenToUseStrategies.tied}</div>
+                  <div><span className="text-orange-400 font-medium">Tired:</span> {knowledge.lowEffortStrategies.join(', ') || 'none defined'}</div>
                 </div>
               </div>
 
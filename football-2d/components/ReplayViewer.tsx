@@ -0,0 +1,165 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import dynamic from 'next/dynamic';
+import { Play, Pause, Box, SquareDashedBottom, SkipBack } from 'lucide-react';
+import MainField from './MainField';
+import { ReplayFile } from '@/types/replay';
+import { getReplayFrame } from '@/utils/replay';
+
+const Field3D = dynamic(() => import('./Field3D'), { ssr: false });
+
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+interface ReplayViewerProps {
+  replay: ReplayFile;
+}
+
+const formatClock = (tick: number, tickRate: number) => {
+  const seconds = Math.floor(tick / tickRate);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export default function ReplayViewer({ replay }: ReplayViewerProps) {
+  const startTick = replay.keyframes[0].tick;
+  const endTick = replay.durationTicks;
+
+  const [tick, setTick] = useState(startTick);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [is3DMode, setIs3DMode] = useState(false);
+
+  const tickRef = useRef(startTick);
+  const reqRef = useRef<number | undefined>(undefined);
+
+  // Start over when a different replay is loaded
+  useEffect(() => {
+    tickRef.current = startTick;
+    setTick(startTick);
+    setIsPlaying(true);
+  }, [replay, startTick]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let last: number | null = null;
+
+    const loop = (now: number) => {
+      const elapsed = last === null ? 0 : now - last;
+      last = now;
+      const next = Math.min(endTick, tickRef.current + (elapsed / 1000) * replay.tickRate * speed);
+      tickRef.current = next;
+      setTick(next);
+      if (next >= endTick) {
+        setIsPlaying(false);
+        return;
+      }
+      reqRef.current = requestAnimationFrame(loop);
+    };
+
+    reqRef.current = requestAnimationFrame(loop);
+    return () => {
+      if (reqRef.current) cancelAnimationFrame(reqRef.current);
+    };
+  }, [isPlaying, speed, endTick, replay.tickRate]);
+
+  const seek = (target: number) => {
+    tickRef.current = target;
+    setTick(target);
+  };
+
+  const togglePlay = () => {
+    if (!isPlaying && tickRef.current >= endTick) seek(startTick);
+    setIsPlaying(!isPlaying);
+  };
+
+  const frame = getReplayFrame(replay, tick);
+  const goalTicks = replay.events.filter(e => e.event.type === 'GOAL').map(e => e.tick);
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full">
+      {/* Scoreboard */}
+      <div className="w-full max-w-3xl flex items-center justify-between bg-zinc-900/50 p-4 rounded-2xl border border-zinc-800">
+        <div className="flex flex-col"><span className="text-[10px] text-red-400 font-bold tracking-widest uppercase">Player FC</span><span className="text-3xl font-black text-white leading-none">{frame.score.red}</span></div>
+        <div className="flex flex-col items-center">
+          <span className="text-[10px] text-zinc-500 font-bold tracking-widest uppercase">Replay · Seed {replay.seed}</span>
+          <span className="text-lg font-mono text-white">{formatClock(tick, replay.tickRate)} / {formatClock(endTick, replay.tickRate)}</span>
+        </div>
+        <div className="flex flex-col items-end"><span className="text-[10px] text-blue-400 font-bold tracking-widest uppercase">Cpu United</span><span className="text-3xl font-black text-white leading-none">{frame.score.blue}</span></div>
+      </div>
+
+      {is3DMode ? (
+        <Field3D redTeam={frame.red} blueTeam={frame.blue} ball={frame.ball} lockedPlayers={frame.lockedPlayers} strategies={frame.strategies} conditions={replay.conditions} announcerMsg={frame.announcerMsg} />
+      ) : (
+        <MainField redTeam={frame.red} blueTeam={frame.blue} ball={frame.ball} lockedPlayers={frame.lockedPlayers} matchState={frame.phase} conditions={replay.conditions} announcerMsg={frame.announcerMsg} />
+      )}
+
+      {/* Transport Controls */}
+      <div className="w-full max-w-3xl bg-zinc-900 border border-zinc-800 rounded-xl p-4 space-y-3">
+        <div className="relative">
+          <input
+            type="range"
+            min={startTick}
+            max={endTick}
+            step={1}
+            value={tick}
+            onChange={(e) => seek(parseFloat(e.target.value))}
+            className="w-full h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+          />
+          {/* Goal markers */}
+          {goalTicks.map(t => (
+            <div key={t} className="absolute -top-2 w-1 h-2 bg-amber-400 rounded-sm pointer-events-none"
+              style={{ left: `${((t - startTick) / Math.max(1, endTick - startTick)) * 100}%` }} />
+          ))}
+        </div>
+        <div className="flex items-center gap-3">
+          <button onClick={() => seek(startTick)} className="p-1.5 bg-zinc-800 rounded-md text-zinc-400 hover:text-white hover:bg-zinc-700 transition-colors" title="Restart">
+            <SkipBack size={16} />
+          </button>
+          <button onClick={togglePlay} className="p-1.5 bg-zinc-800 rounded-md text-zinc-400 hover:text-white hover:bg-zinc-700 transition-colors">
+            {isPlaying ? <Pause size={16} fill="currentColor" /> : <Play size={16} fill="currentColor" />}
+          </button>
+          <div className="flex items-center gap-1 bg-zinc-800/50 border border-zinc-800 p-1 rounded-lg">
+            {PLAYBACK_SPEEDS.map(s => (
+              <button
+                key={s}
+                onClick={() => setSpeed(s)}
+                className={`px-2 py-0.5 rounded text-[11px] font-bold transition-all ${speed === s ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-300'}`}
+              >
+                {s}x
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => setIs3DMode(!is3DMode)}
+            className={`ml-auto p-1.5 rounded-md transition-all ${is3DMode ? 'bg-emerald-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:text-white hover:bg-zinc-700'}`}
+            title={is3DMode ? "Switch to 2D View" : "Switch to 3D View"}
+          >
+            {is3DMode ? <Box size={16} /> : <SquareDashedBottom size={16} />}
+          </button>
+        </div>
+      </div>
+
+      {/* AI Decisions so far */}
+      <div className="w-full max-w-3xl bg-zinc-900 border border-zinc-800 rounded-xl p-4">
+        <h3 className="text-xs font-bold text-zinc-400 uppercase tracking-wider mb-2">
+          🤖 AI Strategy Decisions <span className="text-zinc-600 font-normal">({frame.decisions.length}/{replay.decisions.length})</span>
+        </h3>
+        {frame.decisions.length > 0 ? (
+          <div className="max-h-48 overflow-y-auto space-y-2 pr-1">
+            {frame.decisions.slice().reverse().map((d, idx) => (
+              <button key={idx} onClick={() => seek(d.tick)} className="w-full text-left bg-zinc-800/50 rounded p-2 border border-zinc-700/50 hover:border-zinc-500">
+                <div className="flex items-center justify-between text-[11px]">
+                  <span className="font-bold text-emerald-400">{d.playerId}: {d.selectedStrategy}</span>
+                  <span className="text-zinc-600 font-mono">{formatClock(d.tick, replay.tickRate)}</span>
+                </div>
+                <p className="text-[11px] text-zinc-400">{d.reasoning}</p>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div className="text-xs text-zinc-500 text-center py-2">No decisions yet</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { SAMPLE_STRATEGY, StrategyDefinition, validateStrategies } from '@/types/strategy';
+
+interface StrategyEditorProps {
+  userStrategies: StrategyDefinition[];
+  onSave: (strategies: StrategyDefinition[]) => void;
+}
+
+export default function StrategyEditor({ userStrategies, onSave }: StrategyEditorProps) {
+  const [jsonText, setJsonText] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [successMessage, setSuccessMessage] = useState('');
+
+  // Show the strategies the current match was started with
+  useEffect(() => {
+    setJsonText(JSON.stringify(userStrategies.length > 0 ? userStrategies : [SAMPLE_STRATEGY], null, 2));
+  }, [userStrategies]);
+
+  const handleSave = () => {
+    setErrors([]);
+    setSuccessMessage('');
+
+    try {
+      const parsed = JSON.parse(jsonText);
+      const validation = validateStrategies(parsed);
+
+      if (!validation.valid) {
+        setErrors(validation.errors);
+        return;
+      }
+
+      onSave(parsed as StrategyDefinition[]);
+      setSuccessMessage(`✅ ${parsed.length} user ${parsed.length === 1 ? 'strategy' : 'strategies'} saved. A new match has started with them.`);
+    } catch (e: any) {
+      setErrors([`JSON Parse Error: ${e.message}`]);
+    }
+  };
+
+  return (
+    <details className="w-full max-w-6xl mt-6 bg-zinc-900/50 border border-zinc-800 rounded-xl p-4">
+      <summary className="text-sm font-bold text-zinc-300 uppercase tracking-wider cursor-pointer">
+        🧩 User Strategies ({userStrategies.length})
+      </summary>
+
+      <p className="text-zinc-400 text-xs mt-3 mb-3">
+        Define your own strategies as a JSON array. The AI can pick them like the built-in ones, and a
+        strategy with a built-in id replaces it. Saving starts a new match.
+      </p>
+
+      <textarea
+        value={jsonText}
+        onChange={(e) => setJsonText(e.target.value)}
+        className="w-full h-72 bg-zinc-800 text-zinc-100 border border-zinc-600 rounded p-4 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+        spellCheck={false}
+      />
+
+      {errors.length > 0 && (
+        <div className="mt-3 p-3 bg-red-900/30 border border-red-700 rounded">
+          <ul className="list-disc list-inside text-red-300 text-xs space-y-1">
+            {errors.map((error, idx) => (
+              <li key={idx}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {successMessage && (
+        <p className="mt-3 text-green-400 text-xs font-semibold">{successMessage}</p>
+      )}
+
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-semibold rounded transition-colors"
+        >
+          Save Strategies
+        </button>
+        <button
+          onClick={() => setJsonText(JSON.stringify([SAMPLE_STRATEGY], null, 2))}
+          className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm rounded transition-colors"
+        >
+          Load Sample
+        </button>
+      </div>
+
+      <details className="mt-3">
+        <summary className="text-zinc-400 text-xs cursor-pointer hover:text-zinc-300">
+          📖 View Schema Documentation
+        </summary>
+        <div className="mt-2 p-4 bg-zinc-800 border border-zinc-600 rounded text-xs text-zinc-400 font-mono overflow-x-auto">
+          <pre>{`{
+  id: string,                // UPPER_SNAKE_CASE, unique
+  label: string,             // Name the AI picks by
+  icon: string,
+  category: 'offensive' | 'defensive' | 'balanced',
+  description: string,       // One line shown to the AI
+
+  positioning: {
+    anchor: 'SUPPORT' | 'BALL' | 'SPACE' | 'HOME' | 'COVER' | 'MARK',
+    depth: number,           // Px towards the opponents' goal (negative drops back)
+    width: number | 'TOUCHLINE', // Sideways spread by slot width (600 = formation)
+    effort: 0-1,             // Share of full sprint
+    pressDistance: number,   // Close down the ball this near (0 = only when nearest)
+    leash?: number           // Stay within this of the slot's own spot
+  },
+
+  inPossession?: { ... },    // Positioning overrides while your team has the ball
+
+  onBall?: {
+    passWeight?: number,     // > 1 passes more, < 1 dribbles more
+    progressWeight?: number, // > 1 prefers forward passes
+    shootRange?: number      // > 1 shoots from further out
+  }
+}`}</pre>
+        </div>
+      </details>
+    </details>
+  );
+}
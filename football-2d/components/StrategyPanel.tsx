@@ -1,6 +1,8 @@
 'use client';
 
 import React from 'react';
+import { StrategyDefinition } from '../types/strategy';
+import { describeStrategy, formatStrategy } from '../utils/strategies';
 
 interface Player {
   id: string;
@@ -9,6 +11,7 @@ interface Player {
   vx: number;
   vy: number;
   role: 'GK' | 'FIELD';
+  position: 'GK' | 'DEF' | 'MID' | 'FWD';
 }
 
 interface LockInfo {
@@ -16,18 +19,12 @@ interface LockInfo {
   timer: number;
 }
 
-interface Ball {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-}
-
 interface StrategyPanelProps {
   redTeam: Player[];
   blueTeam: Player[];
-  ball: Ball;
   lockedPlayers: Map<string, LockInfo>;
+  strategies: Map<string, StrategyDefinition>; // Strategy each field player is playing
+  available: StrategyDefinition[];              // Everything the AI can pick from
   onPlayerClick: (playerId: string) => void;
   selectedPlayer: string | null;
 }
@@ -44,110 +41,44 @@ const SECTORS = [
   { id: 8, label: 'Bot-Right' },
 ];
 
+/**
+ * What the player is doing right now: goalkeepers keep goal, red players locked to a
+ * sector from the tactical pad hold it, and everyone else plays their strategy
+ */
 export const getPlayerStrategy = (
   player: Player,
   isRed: boolean,
-  ball: Ball,
-  team: Player[],
-  lockedPlayers: Map<string, LockInfo>
-): { current: string; possible: string[]; icon: string } => {
-  const possible = [];
-
+  lockedPlayers: Map<string, LockInfo>,
+  strategy: StrategyDefinition
+): { current: string; icon: string } => {
   if (player.role === 'GK') {
-    return {
-      current: '🥅 Goalkeeper',
-      possible: ['🥅 Goalkeeper (fixed role)'],
-      icon: '🥅',
-    };
+    return { current: '🥅 Goalkeeper', icon: '🥅' };
   }
 
-  // Check if chaser
-  let chaserId: string | null = null;
-  let minDist = Infinity;
-  team.forEach((p) => {
-    if (p.role !== 'GK') {
-      const d = Math.hypot(ball.x - p.x, ball.y - p.y);
-      if (d < minDist) {
-        minDist = d;
-        chaserId = p.id;
-      }
-    }
-  });
-
-  const isChaser = player.id === chaserId;
   const lock = lockedPlayers.get(player.id);
-
-  // Current strategy
-  let current = '';
-  let icon = '';
   if (isRed && lock) {
     const sector = SECTORS.find((s) => s.id === lock.targetSector);
-    current = `🎯 Zone Lock: ${sector?.label || 'Unknown'}`;
-    icon = '🎯';
-  } else if (isChaser) {
-    current = '⚡ Ball Pressure';
-    icon = '⚡';
-  } else {
-    // Determine support role based on position
-    const playerIdx = parseInt(player.id.replace(/[rb]/, ''));
-    if (playerIdx === 1) {
-      current = '🛡️ Defensive Cover';
-      icon = '🛡️';
-    } else if (playerIdx === 2) {
-      current = '🔄 Box-to-Box';
-      icon = '🔄';
-    } else {
-      current = '⚔️ Forward Support';
-      icon = '⚔️';
-    }
+    return { current: `🎯 Zone Lock: ${sector?.label || 'Unknown'}`, icon: '🎯' };
   }
 
-  // Possible strategies
-  if (isRed) {
-    // Offensive Strategies
-    possible.push('⚡ Ball Pressure - Chase the ball');
-    possible.push('🚀 Press Forward - Attack aggressively');
-    possible.push('🎨 Playmaker - Create chances');
-    possible.push('⚔️ Forward Support - Stay upfield');
-
-    // Defensive Strategies
-    possible.push('🛡️ Defensive Cover - Protect goal');
-    possible.push('🔒 Mark Player - Shadow opponent');
-    possible.push('🏰 Hold Position - Stay in place');
-
-    // Balanced Strategies
-    possible.push('🔄 Box-to-Box - Dynamic movement');
-    possible.push('⚖️ Balanced - Adapt to play');
-
-    // Zone Strategies
-    SECTORS.forEach((s) => {
-      possible.push(`🎯 Zone Lock: ${s.label}`);
-    });
-
-    // Special Strategies
-    possible.push('💨 Counter Attack - Quick breaks');
-    possible.push('🎪 Wing Play - Wide positioning');
-    possible.push('⏱️ Possession - Keep the ball');
-  } else {
-    possible.push('⚡ Ball Pressure (AI)');
-    possible.push('🛡️ Defensive Cover (AI)');
-    possible.push('🔄 Box-to-Box (AI)');
-    possible.push('⚔️ Forward Support (AI)');
-    possible.push('🚀 Press Forward (AI)');
-    possible.push('🤖 Adaptive AI - Auto-adjust');
-  }
-
-  return { current, possible, icon };
+  return { current: formatStrategy(strategy), icon: strategy.icon };
 };
 
 export const StrategyPanel: React.FC<StrategyPanelProps> = ({
   redTeam,
   blueTeam,
-  ball,
   lockedPlayers,
+  strategies,
+  available,
   onPlayerClick,
   selectedPlayer,
 }) => {
+  // Red can also be locked to a sector from the tactical pad
+  const redOptions = [...available.map(describeStrategy), ...SECTORS.map((s) => `🎯 Zone Lock: ${s.label}`)];
+  const blueOptions = available.map(describeStrategy);
+  const optionsFor = (player: Player, options: string[]) =>
+    player.role === 'GK' ? ['🥅 Goalkeeper (fixed role)'] : options;
+
   return (
     <div className="w-full max-w-6xl grid grid-cols-2 gap-6 mt-8">
       {/* Red Team (Left) */}
@@ -158,13 +89,8 @@ export const StrategyPanel: React.FC<StrategyPanelProps> = ({
         </h3>
         <div className="space-y-3">
           {redTeam.map((player) => {
-            const { current, possible, icon } = getPlayerStrategy(
-              player,
-              true,
-              ball,
-              redTeam,
-              lockedPlayers
-            );
+            const { current, icon } = getPlayerStrategy(player, true, lockedPlayers, strategies.get(player.id)!);
+            const possible = optionsFor(player, redOptions);
             const isSelected = selectedPlayer === player.id;
             return (
               <div
@@ -215,13 +141,8 @@ export const StrategyPanel: React.FC<StrategyPanelProps> = ({
         </h3>
         <div className="space-y-3">
           {blueTeam.map((player) => {
-            const { current, possible, icon } = getPlayerStrategy(
-              player,
-              false,
-              ball,
-              blueTeam,
-              lockedPlayers
-            );
+            const { current, icon } = getPlayerStrategy(player, false, lockedPlayers, strategies.get(player.id)!);
+            const possible = optionsFor(player, blueOptions);
             const isSelected = selectedPlayer === player.id;
             return (
               <div
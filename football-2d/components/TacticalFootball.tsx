@@ -7,45 +7,38 @@ import {
   SlidersHorizontal,
   Play,
   Pause,
-  FastForward,
   Box,
   SquareDashedBottom,
   Gamepad2,
-  Eye
+  Eye,
+  RotateCcw
 } from 'lucide-react';
 import dynamic from 'next/dynamic';
 import StrategyPanel from './StrategyPanel';
-import { predictBallTrajectory, getActiveAlgorithmName, isCustomAlgorithmActive, clearCustomAlgorithm } from '../utils/trajectoryPredictorWrapper';
-import { predictPlayerTrajectory, analyzeInterception } from '../utils/trajectoryPredictor';
+import StrategyEditor from './StrategyEditor';
+import MainField from './MainField';
+import { predictBallTrajectory, getActiveAlgorithmName, getCustomAlgorithmPhysics, isCustomAlgorithmActive, clearCustomAlgorithm } from '../utils/trajectoryPredictorWrapper';
+import { OutOfPlay, predictPlayerTrajectory, analyzeInterception } from '../utils/trajectoryPredictor';
+import { MatchEngine, STATE, FIELD_WIDTH, FIELD_HEIGHT, DEFAULT_MATCH_RULES, getTeamAttacking, getTopSpeed, getSprintAcceleration } from '../utils/matchEngine';
+import { DEFAULT_TEAM_SIZE, TEAM_SIZES, getFormation, getFormationsForSize } from '../utils/formations';
+import { TEAM_CONTROLLERS, getTeamController } from '../utils/teamControllers';
+import { MATCH_CONDITIONS, getMatchConditions } from '../utils/matchConditions';
+import { DEFAULT_PHYSICS } from '../utils/physics';
+import { DEFAULT_MATCH_CLOCK, describeMatchClock, formatMatchClock, getPeriodLabel, isBreakPeriod } from '../utils/matchClock';
+import { FixedTimestepLoop, RenderSnapshot, TICK_DT, takeSnapshot, interpolateSnapshots } from '../utils/fixedTimestep';
+import { ReplayRecorder, downloadReplay } from '../utils/replay';
+import { DEFAULT_STRATEGY, describeStrategy, findStrategy, formatStrategy, getLowEffortStrategies, getStrategyGuidelines, getStrategyUsage, loadUserStrategies, saveUserStrategies } from '../utils/strategies';
+import { Player, Ball, LockInfo, MatchEvent, MatchClockConfig, MatchClockInfo, MatchRules, MatchState, TeamSide, TeamSize } from '../types/match';
+import { StrategyDefinition } from '../types/strategy';
+import { TeamController } from '../types/controller';
+import { MatchConditions } from '../types/conditions';
+import { PhysicsProfile } from '../types/physics';
 import Link from 'next/link';
 
 const Field3D = dynamic(() => import('./Field3D'), { ssr: false });
 const PlayerPOV = dynamic(() => import('./PlayerPOV'), { ssr: false });
 
 // --- Constants ---
-const FIELD_WIDTH = 1000;
-const FIELD_HEIGHT = 600;
-const GOAL_TOP = 240;
-const GOAL_BOTTOM = 360;
-
-const PLAYER_RADIUS = 12;
-const BALL_RADIUS = 8;
-const TEAM_SIZE = 4;
-
-// Physics Base Values
-const BASE_FRICTION = 0.94;
-const DRIBBLE_POWER = 3.5;
-const PASS_POWER = 7;
-const SHOOT_POWER = 14;
-const KICK_COOLDOWN = 15;
-const TACTICAL_LOCK_DURATION = 300; // Increased duration slightly for better observation
-
-// Game States
-const STATE = {
-  PLAYING: 'PLAYING',
-  RESETTING: 'RESETTING'
-};
-
 const SECTORS = [
   { id: 0, x: 0, y: 0, label: 'Top-Left' },   { id: 1, x: 1, y: 0, label: 'Top-Mid' },   { id: 2, x: 2, y: 0, label: 'Top-Right' },
   { id: 3, x: 0, y: 1, label: 'Mid-Left' },   { id: 4, x: 1, y: 1, label: 'Center' },    { id: 5, x: 2, y: 1, label: 'Mid-Right' },
@@ -56,72 +49,10 @@ const GAME_KNOWLEDGE = {
   roleDescriptions: {
     GK: 'Goalkeeper - Primary defender of your goal. Stay near your goal and block shots.',
     FIELD: 'Field Player - Offensive and defensive duties. Chase ball, pass, shoot, and support teammates.'
-  },
-  strategyGuidelines: {
-    offensive: [
-      '⚡ Ball Pressure - Aggressively chase and pressure the ball carrier',
-      '🚀 Press Forward - Push toward opponent goal for scoring opportunities',
-      '⚔️ Forward Support - Stay upfield to receive passes and create chances',
-      '🎨 Playmaker - Position to create passing lanes and control tempo',
-      '💨 Counter Attack - Quick transition from defense to attack',
-      '🎪 Wing Play - Position wide to stretch opponent defense'
-    ],
-    defensive: [
-      '🛡️ Defensive Cover - Stay between ball and your goal to protect',
-      '🔒 Mark Player - Shadow and pressure specific opponent',
-      '🏰 Hold Position - Maintain defensive shape and position',
-      '🎯 Zone Lock - Control a specific area of the field'
-    ],
-    balanced: [
-      '🔄 Box-to-Box - Dynamically move between attack and defense',
-      '⚖️ Balanced - Adapt role based on game flow',
-      '⏱️ Possession - Focus on keeping the ball and controlling pace'
-    ]
-  },
-  whenToUseStrategies: {
-    winning: 'When ahead: Use defensive strategies (🛡️ Defensive Cover, 🏰 Hold Position) to protect your lead. Maintain possession (⏱️).',
-    losing: 'When behind: Use offensive strategies (🚀 Press Forward, ⚡ Ball Pressure, ⚔️ Forward Support) to create scoring chances.',
-    tied: 'When tied: Use balanced strategies (🔄 Box-to-Box, ⚖️ Balanced) to adapt to game flow and exploit opportunities.'
   }
 };
 
-// --- Helper Functions ---
-
-const isGoal = (x: number, y: number) => {
-  if (y > GOAL_TOP && y < GOAL_BOTTOM) {
-    if (x < 10) return 'RED';
-    if (x > FIELD_WIDTH - 10) return 'BLUE';
-  }
-  return null;
-};
-
-const randRange = (min: number, max: number) => Math.random() * (max - min) + min;
-
-// Linear Interpolation for smooth resets
-const lerp = (start: number, end: number, t: number) => start + (end - start) * t;
-
 // --- Types ---
-interface Player {
-  id: string;
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  role: 'GK' | 'FIELD';
-}
-
-interface Ball {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-}
-
-interface LockInfo {
-  targetSector: number;
-  timer: number;
-}
-
 interface TrajectoryPoint {
   x: number;
   y: number;
@@ -135,6 +66,7 @@ interface BallPrediction {
   landingPosition: { x: number; y: number } | null;
   timeToStop: number;
   willExitField: boolean;
+  outOfPlay: (OutOfPlay & { t: number }) | null;
 }
 
 interface PlayerPrediction {
@@ -159,6 +91,9 @@ interface PlayerKnowledge {
   myGoalSide: 'left' | 'right'; // Which side is my goal
   opponentGoalSide: 'left' | 'right'; // Which side is opponent's goal
   myRole: 'GK' | 'FIELD';
+  matchClock: MatchClockInfo;
+  myStamina: number; // 0-1
+  teammateStamina: { playerId: string; stamina: number }[];
 
   // Game knowledge
   roleDescriptions: {
@@ -175,6 +110,7 @@ interface PlayerKnowledge {
     losing: string;
     tied: string;
   };
+  lowEffortStrategies: string[]; // Strategies a tired player can recover in
 
   // Trajectory predictions
   ballPrediction: BallPrediction;
@@ -196,77 +132,6 @@ interface PlayerKnowledge {
 
 // --- Components ---
 
-const MainField = ({ redTeam, blueTeam, ball, lockedPlayers, matchState, announcerMsg }: {
-  redTeam: Player[];
-  blueTeam: Player[];
-  ball: Ball;
-  lockedPlayers: Map<string, LockInfo>;
-  matchState: string;
-  announcerMsg: string;
-}) => (
-  <div
-      className="relative bg-emerald-600 rounded-lg overflow-hidden border-4 border-zinc-800 shadow-2xl mb-8 select-none"
-      style={{ width: '100%', maxWidth: '700px', aspectRatio: '5/3' }}
-  >
-      {/* Field Texture */}
-      <div className="absolute inset-0 opacity-20 bg-[linear-gradient(90deg,transparent_49%,rgba(0,0,0,0.1)_50%)] bg-[length:100px_100%]" />
-
-      {/* Lines */}
-      <div className="absolute inset-8 border-2 border-white/40 rounded-sm" />
-      <div className="absolute top-0 bottom-0 left-1/2 w-0.5 bg-white/40" />
-      <div className="absolute top-1/2 left-1/2 w-32 h-32 border-2 border-white/40 rounded-full -translate-x-1/2 -translate-y-1/2" />
-      <div className="absolute top-1/2 left-1/2 w-1 h-1 bg-white/60 rounded-full -translate-x-1/2 -translate-y-1/2" />
-
-      {/* Penalty Areas */}
-      <div className="absolute left-8 top-1/2 -translate-y-1/2 w-32 h-64 border-r-2 border-y-2 border-white/40" />
-      <div className="absolute right-8 top-1/2 -translate-y-1/2 w-32 h-64 border-l-2 border-y-2 border-white/40" />
-
-      {/* Goals */}
-      <div className="absolute left-0 top-1/2 -translate-y-1/2 w-2 h-32 bg-zinc-200/50 border-r-2 border-white/80" />
-      <div className="absolute right-0 top-1/2 -translate-y-1/2 w-2 h-32 bg-zinc-200/50 border-l-2 border-white/80" />
-
-      {/* Entities */}
-      {blueTeam.map(p => (
-          <div key={p.id}
-              className="absolute w-5 h-5 bg-blue-600 rounded-full border-2 border-white shadow-sm flex items-center justify-center z-10"
-              style={{ left: `${(p.x/FIELD_WIDTH)*100}%`, top: `${(p.y/FIELD_HEIGHT)*100}%`, transform: 'translate(-50%, -50%)' }}
-          >
-             <span className="text-[8px] text-white font-bold">{p.id.replace('b','')}</span>
-          </div>
-      ))}
-      {redTeam.map(p => {
-          const isLocked = lockedPlayers.has(p.id);
-          return (
-            <div key={p.id}
-                className={`absolute w-5 h-5 rounded-full border-2 shadow-sm flex items-center justify-center z-10
-                  ${isLocked ? 'bg-amber-500 border-amber-200' : 'bg-red-600 border-white'}`}
-                style={{ left: `${(p.x/FIELD_WIDTH)*100}%`, top: `${(p.y/FIELD_HEIGHT)*100}%`, transform: 'translate(-50%, -50%)' }}
-            >
-              <span className="text-[8px] text-white font-bold">{p.id.replace('r','')}</span>
-              {isLocked && <div className="absolute -top-3 w-2 h-2 border border-amber-400 rounded-full animate-ping" />}
-            </div>
-          );
-      })}
-
-      <div
-          className="absolute w-3.5 h-3.5 bg-white rounded-full shadow-md z-20 border border-zinc-300"
-          style={{ left: `${(ball.x/FIELD_WIDTH)*100}%`, top: `${(ball.y/FIELD_HEIGHT)*100}%`, transform: 'translate(-50%, -50%)' }}
-      />
-
-      {/* Announcer Banner (Subtle Top Bar) */}
-      {announcerMsg && (
-        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30 pointer-events-none">
-           <div className="bg-zinc-900/90 border border-white/10 px-6 py-2 rounded-full shadow-2xl animate-in slide-in-from-top-4 fade-in duration-300">
-              <h2 className="text-xl font-black italic text-white tracking-widest uppercase drop-shadow-md text-center flex items-center gap-2">
-                {matchState === STATE.RESETTING && <FastForward size={16} className="animate-pulse text-emerald-400"/>}
-                {announcerMsg}
-              </h2>
-           </div>
-        </div>
-      )}
-  </div>
-);
-
 const SectorKey = React.memo(({ sector, onAssign, redTeam, blueTeam, ball, lockedPlayers }: {
   sector: { id: number; x: number; y: number; label: string };
   onAssign: (id: number) => void;
@@ -312,26 +177,45 @@ const SectorKey = React.memo(({ sector, onAssign, redTeam, blueTeam, ball, locke
 
 SectorKey.displayName = 'SectorKey';
 
+const HALF_LENGTH_OPTIONS = [1, 3, 5, 10]; // Minutes
+
+// Ends swap at half time, so goal sides come from the engine
+const getGoalSides = (team: TeamSide, state: MatchState) => {
+  const attacksLeft = getTeamAttacking('left', state.sidesSwitched) === team;
+  return {
+    myGoalSide: attacksLeft ? 'right' : 'left',
+    opponentGoalSide: attacksLeft ? 'left' : 'right'
+  } as const;
+};
+
 export default function TacticalFootball() {
-  const [renderBall, setRenderBall] = useState<Ball>({ x: FIELD_WIDTH/2, y: FIELD_HEIGHT/2, vx: 0, vy: 0 });
+  const [renderBall, setRenderBall] = useState<Ball>({ x: FIELD_WIDTH/2, y: FIELD_HEIGHT/2, z: 0, vx: 0, vy: 0, vz: 0, spin: 0 });
   const [renderRed, setRenderRed] = useState<Player[]>([]);
   const [renderBlue, setRenderBlue] = useState<Player[]>([]);
   // Track selected sectors (from device or UI). Multiple sectors can be active.
   const [selectedSectors, setSelectedSectors] = useState<number[]>([]);
 
-  const gameState = useRef({
-    ball: { x: FIELD_WIDTH/2, y: FIELD_HEIGHT/2, vx: 0, vy: 0 },
-    red: [] as Player[],
-    blue: [] as Player[],
-    matchState: STATE.PLAYING,
-    resetTarget: null as any
-  });
+  // Headless simulation; this component only feeds it inputs and renders its state
+  const engineRef = useRef<MatchEngine | null>(null);
+  if (!engineRef.current) engineRef.current = new MatchEngine();
+  // Sector presses and AI strategy picks queued for the next engine step
+  const pendingSectorsRef = useRef<number[]>([]);
+  const pendingStrategiesRef = useRef<Record<string, string>>({});
 
   const [lockedPlayersUI, setLockedPlayersUI] = useState(new Map<string, LockInfo>());
+  // Strategy id each field player is playing, once the AI has picked one
+  const [playerStrategies, setPlayerStrategies] = useState(new Map<string, string>());
   const [announcerMsg, setAnnouncerMsg] = useState("");
   const [score, setScore] = useState({ red: 0, blue: 0 });
   const [simSpeed, setSimSpeed] = useState(0.6);
   const [isPaused, setIsPaused] = useState(false);
+  const [clockConfig, setClockConfig] = useState<MatchClockConfig>(DEFAULT_MATCH_CLOCK);
+  const [matchRules, setMatchRules] = useState<MatchRules>(DEFAULT_MATCH_RULES);
+  const [teamSize, setTeamSize] = useState<TeamSize>(DEFAULT_TEAM_SIZE);
+  const [formations, setFormations] = useState<Record<TeamSide, string>>({
+    red: getFormation(undefined).id,
+    blue: getFormation(undefined).id
+  });
   const [is3DMode, setIs3DMode] = useState(false);
   const [appMode, setAppMode] = useState<'GAME' | 'POV'>('GAME');
   const [deviceConnected, setDeviceConnected] = useState(false);
@@ -343,10 +227,12 @@ export default function TacticalFootball() {
   const [playerKnowledge, setPlayerKnowledge] = useState<Map<string, PlayerKnowledge>>(new Map());
   const [backgroundCapturePlayer, setBackgroundCapturePlayer] = useState<string | null>(null);
 
-  const kickCooldowns = useRef(new Map<string, number>());
-  const lockedPlayersRef = useRef(new Map<string, LockInfo>());
   const msgTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const reqRef = useRef<number | undefined>(undefined);
+  const loopRef = useRef(new FixedTimestepLoop());
+  const lastFrameTimeRef = useRef<number | null>(null);
+  const prevSnapshotRef = useRef<RenderSnapshot | null>(null);
+  const recorderRef = useRef<ReplayRecorder | null>(null);
   const playerKnowledgeRef = useRef(playerKnowledge);
   const screenshotTimer = useRef<number | null>(null);
   const currentCaptureIndex = useRef<number>(0);
@@ -356,39 +242,53 @@ export default function TacticalFootball() {
     playerKnowledgeRef.current = playerKnowledge;
   }, [playerKnowledge]);
 
+  // User strategies live in this browser, so the first engine is created once they are loaded
   useEffect(() => {
-    resetMatch();
+    startNewMatch(clockConfig, matchRules, teamSize, formations, loadUserStrategies());
   }, []);
 
-  const initTeamPositions = (isRed: boolean): Player[] => {
-    return Array(TEAM_SIZE).fill(0).map((_, i) => ({
-        id: isRed ? `r${i}` : `b${i}`,
-        x: isRed ? FIELD_WIDTH * 0.75 + randRange(-30, 30) : FIELD_WIDTH * 0.25 + randRange(-30, 30),
-        y: FIELD_HEIGHT * 0.5 + (i === 0 ? 0 : (i % 2 === 0 ? -80 : 80)),
-        vx: 0, vy: 0,
-        role: i === 0 ? 'GK' : 'FIELD'
-    }));
+  // Clock, rule and line-up settings only apply to a fresh engine, so changing them starts a new match
+  const startNewMatch = (
+    config: MatchClockConfig = clockConfig,
+    rules: MatchRules = matchRules,
+    size: TeamSize = teamSize,
+    lineup: Record<TeamSide, string> = formations,
+    strategies: StrategyDefinition[] = engineRef.current!.userStrategies,
+    controllers: Record<TeamSide, TeamController> = engineRef.current!.controllers,
+    conditions: MatchConditions = engineRef.current!.conditions,
+    physics: PhysicsProfile = engineRef.current!.physics
+  ) => {
+    const engine = new MatchEngine({ clock: config, rules, teamSize: size, formations: lineup, strategies, controllers, conditions, physics });
+    setClockConfig(config);
+    setMatchRules(rules);
+    setTeamSize(size);
+    // The engine falls back to a default formation when the id does not fit the team size
+    setFormations({ red: engine.formations.red.id, blue: engine.formations.blue.id });
+    engineRef.current = engine;
+    setAnnouncerMsg("");
+    resetMatch();
   };
 
   const resetMatch = () => {
-      const startAngle = Math.random() * Math.PI * 2;
-      const startSpeed = randRange(2, 4);
-
-      gameState.current.ball = {
-          x: FIELD_WIDTH/2, y: FIELD_HEIGHT/2,
-          vx: Math.cos(startAngle) * startSpeed, vy: Math.sin(startAngle) * startSpeed
-      };
-      gameState.current.red = initTeamPositions(true);
-      gameState.current.blue = initTeamPositions(false);
-      gameState.current.matchState = STATE.PLAYING;
-
-      lockedPlayersRef.current.clear();
+      const state = engineRef.current!.reset();
+      pendingSectorsRef.current = [];
+      pendingStrategiesRef.current = {};
+      setPlayerStrategies(new Map());
+      loopRef.current.reset();
+      prevSnapshotRef.current = null;
+      recorderRef.current = new ReplayRecorder(engineRef.current!, state);
+
+      setScore({ ...state.score });
       setLockedPlayersUI(new Map());
-      kickCooldowns.current.clear();
 
       // Initialize knowledge base for all players
       const newKnowledge = new Map<string, PlayerKnowledge>();
-      const allPlayers = [...gameState.current.red, ...gameState.current.blue];
+      const registry = engineRef.current!.strategyRegistry;
+      const defaultStrategy = formatStrategy(registry[DEFAULT_STRATEGY]);
+      const strategyGuidelines = getStrategyGuidelines(registry);
+      const whenToUseStrategies = getStrategyUsage(registry);
+      const lowEffortStrategies = getLowEffortStrategies(registry);
+      const allPlayers = [...state.red, ...state.blue];
 
       allPlayers.forEach(player => {
         const isRed = player.id.startsWith('r');
@@ -398,10 +298,17 @@ export default function TacticalFootball() {
 
         // Initial trajectory predictions (will be updated every frame)
         const initialBallPrediction = predictBallTrajectory(
-          gameState.current.ball.x,
-          gameState.current.ball.y,
-          gameState.current.ball.vx,
-          gameState.current.ball.vy
+          state.ball.x,
+          state.ball.y,
+          state.ball.vx,
+          state.ball.vy,
+          3.0,
+          0.1,
+          state.ball.spin,
+          {
+            z: state.ball.z, vz: state.ball.vz, physics: engineRef.current!.physics, conditions: engineRef.current!.conditions,
+            lastTouch: state.lastTouch?.team ?? null, sidesSwitched: state.sidesSwitched
+          }
         );
 
         newKnowledge.set(player.id, {
@@ -411,21 +318,24 @@ export default function TacticalFootball() {
           fovScreenshots: [],
 
           // Strategic info
-          myCurrentStrategy: player.role === 'GK' ? '🥅 Goalkeeper' : '⚖️ Balanced',
+          myCurrentStrategy: player.role === 'GK' ? '🥅 Goalkeeper' : defaultStrategy,
           teammateStrategies: teammates.map(t => ({
             playerId: t.id,
-            strategy: t.role === 'GK' ? '🥅 Goalkeeper' : '⚖️ Balanced'
+            strategy: t.role === 'GK' ? '🥅 Goalkeeper' : defaultStrategy
           })),
 
           // Game context
-          myGoalSide: isRed ? 'left' : 'right',
-          opponentGoalSide: isRed ? 'right' : 'left',
+          ...getGoalSides(team, state),
           myRole: player.role,
+          matchClock: describeMatchClock(state.clock, engineRef.current!.clockConfig),
+          myStamina: player.stamina,
+          teammateStamina: teammates.map(t => ({ playerId: t.id, stamina: t.stamina })),
 
           // Game knowledge (shared by all players)
           roleDescriptions: GAME_KNOWLEDGE.roleDescriptions,
-          strategyGuidelines: GAME_KNOWLEDGE.strategyGuidelines,
-          whenToUseStrategies: GAME_KNOWLEDGE.whenToUseStrategies,
+          strategyGuidelines,
+          whenToUseStrategies,
+          lowEffortStrategies,
 
           // Trajectory predictions (initial state)
           ballPrediction: initialBallPrediction,
@@ -462,108 +372,73 @@ export default function TacticalFootball() {
     msgTimeoutRef.current = setTimeout(() => setAnnouncerMsg(""), 1500);
   };
 
-  // Reset for Goals (Hard Reset)
-  const triggerGoal = (team: string) => {
-    const newScore = { ...score, [team.toLowerCase()]: score[team.toLowerCase() as 'red' | 'blue'] + 1 };
-    setScore(newScore);
-
-    // Update all players' knowledge with new score
-    setPlayerKnowledge(prev => {
-      const updated = new Map(prev);
-      updated.forEach((knowledge, playerId) => {
-        updated.set(playerId, {
-          ...knowledge,
-          currentScore: newScore
-        });
-      });
-      return updated;
-    });
-
-    gameState.current.matchState = STATE.RESETTING;
-    setAnnouncerMsg(`${team} GOAL!`);
-
-    gameState.current.resetTarget = {
-        ball: { x: FIELD_WIDTH/2, y: FIELD_HEIGHT/2 },
-        red: initTeamPositions(true),
-        blue: initTeamPositions(false),
-        resetPlayers: true
-    };
+  // Translate engine events into UI feedback
+  const handleMatchEvents = (events: MatchEvent[]) => {
+    events.forEach(event => {
+      switch (event.type) {
+        case 'GOAL': {
+          const newScore = { ...event.score };
+          setScore(newScore);
 
-    lockedPlayersRef.current.clear();
-    setLockedPlayersUI(new Map());
-    kickCooldowns.current.clear();
+          // Update all players' knowledge with new score
+          setPlayerKnowledge(prev => {
+            const updated = new Map(prev);
+            updated.forEach((knowledge, playerId) => {
+              updated.set(playerId, {
+                ...knowledge,
+                currentScore: newScore
+              });
+            });
+            return updated;
+          });
 
-    setTimeout(() => {
-        if (gameState.current.matchState === STATE.RESETTING) {
-            gameState.current.matchState = STATE.PLAYING;
-            setAnnouncerMsg("");
+          if (msgTimeoutRef.current) clearTimeout(msgTimeoutRef.current);
+          setAnnouncerMsg(`${event.team.toUpperCase()} GOAL!`);
+          setLockedPlayersUI(new Map());
+          break;
         }
-    }, 2000);
-  };
-
-  // Handling for Outs (Seamless Transition)
-  const triggerOut = (msg: string, bx: number, by: number) => {
-    announce(msg);
-    // Instant transport ball to restart position
-    gameState.current.ball.x = bx;
-    gameState.current.ball.y = by;
-
-    // Slight inward nudge to prevent immediate 'out' loop
-    let nudgeX = 0;
-    let nudgeY = 0;
-    if (by < 50) nudgeY = 2; // From Top
-    if (by > FIELD_HEIGHT - 50) nudgeY = -2; // From Bottom
-    if (bx < 50) nudgeX = 2; // From Left
-    if (bx > FIELD_WIDTH - 50) nudgeX = -2; // From Right
-
-    gameState.current.ball.vx = nudgeX;
-    gameState.current.ball.vy = nudgeY;
-
-    // Don't reset players, just clear cooldowns so they can interact immediately
-    kickCooldowns.current.clear();
+        case 'KICKOFF':
+          setAnnouncerMsg("");
+          break;
+        case 'PERIOD':
+          // Break and full-time banners stay up until the next kickoff
+          if (isBreakPeriod(event.period) || event.period === 'FULL_TIME') {
+            if (msgTimeoutRef.current) clearTimeout(msgTimeoutRef.current);
+            setAnnouncerMsg(event.period === 'EXTRA_TIME_BREAK' ? 'EXTRA TIME' : getPeriodLabel(event.period).toUpperCase());
+            setLockedPlayersUI(new Map());
+          }
+          break;
+        case 'ADDED_TIME':
+          announce(`+${event.seconds}s ADDED TIME`);
+          break;
+        case 'FOUL':
+          announce(`FOUL! ${event.team.toUpperCase()} ${event.restart}`);
+          break;
+        case 'OFFSIDE':
+          announce(`OFFSIDE! ${event.playerId.toUpperCase()}`);
+          break;
+        case 'CARD':
+          announce(`${event.card === 'RED' ? '🟥' : '🟨'} ${event.card} CARD ${event.playerId.toUpperCase()}`);
+          break;
+        case 'OUT':
+          announce(`${event.team.toUpperCase()} ${event.restart}`);
+          break;
+        case 'SAVE':
+          announce(`${event.caught ? 'CAUGHT' : 'SAVED'} BY ${event.playerId.toUpperCase()}`);
+          break;
+        case 'LOCK':
+          setLockedPlayersUI(new Map(engineRef.current!.getState().lockedPlayers));
+          // Add this sector to the selected sectors when a lock is actually created
+          setSelectedSectors(prev => prev.includes(event.sectorId) ? prev : [...prev, event.sectorId]);
+          break;
+      }
+    });
   };
 
+  // Queue a sector press; the engine locks a player on its next step
   const assignPlayerToSector = useCallback((sectorId: number) => {
-    const { red, ball } = gameState.current;
-    let chaserId: string | null = null;
-    let minDist = Infinity;
-    red.forEach(p => {
-        if (p.role !== 'GK') {
-             const d = Math.hypot(ball.x - p.x, ball.y - p.y);
-             if (d < minDist) { minDist = d; chaserId = p.id; }
-        }
-    });
-
-    // We don't need to calculate a random target anymore
-    // We just find the best candidate and lock them to the sector ID
-    let candidateId: string | null = null;
-    let minSecDist = Infinity;
-
-    // Find candidate closest to sector center
-    const sectorW = FIELD_WIDTH / 3;
-    const sectorH = FIELD_HEIGHT / 3;
-    const col = sectorId % 3;
-    const row = Math.floor(sectorId / 3);
-    const cx = (col * sectorW) + (sectorW / 2);
-    const cy = (row * sectorH) + (sectorH / 2);
-
-    red.forEach(p => {
-        if (p.id !== chaserId && p.role !== 'GK' && !lockedPlayersRef.current.has(p.id)) {
-            const d = Math.hypot(cx - p.x, cy - p.y);
-            if (d < minSecDist) { minSecDist = d; candidateId = p.id; }
-        }
-    });
-
-      if (candidateId) {
-      lockedPlayersRef.current.set(candidateId, {
-        targetSector: sectorId,
-        timer: TACTICAL_LOCK_DURATION
-      });
-      setLockedPlayersUI(new Map(lockedPlayersRef.current));
-      // Add this sector to the selected sectors when a lock is actually created
-      setSelectedSectors(prev => prev.includes(sectorId) ? prev : [...prev, sectorId]);
-    }
-    }, []);
+    pendingSectorsRef.current.push(sectorId);
+  }, []);
 
     // Device button listener: lock players when device buttons (0-8) are pressed
     useEffect(() => {
@@ -574,7 +449,7 @@ export default function TacticalFootball() {
         const key = e && e.detail && typeof e.detail.key === 'number' ? e.detail.key : null;
         if (key !== null && key >= 0 && key <= 8) {
           // Only attempt to assign a player; do NOT pre-set selection here.
-          // Selection is set inside `assignPlayerToSector` only when a lock is actually created.
+          // Selection is set from the engine's LOCK event only when a lock is actually created.
           try { assignPlayerToSector(key); }
           catch (err) { console.warn('assignPlayerToSector error', err); }
         }
@@ -588,274 +463,123 @@ export default function TacticalFootball() {
     useEffect(() => {
       if (!selectedSectors || selectedSectors.length === 0) return;
       // Keep only sectors that still have active locks
-      const remaining = selectedSectors.filter(sec => Array.from(lockedPlayersRef.current.values()).some(l => l.targetSector === sec));
+      const locks = engineRef.current!.getState().lockedPlayers;
+      const remaining = selectedSectors.filter(sec => Array.from(locks.values()).some(l => l.targetSector === sec));
       if (remaining.length !== selectedSectors.length) setSelectedSectors(remaining);
     }, [lockedPlayersUI, selectedSectors]);
 
-  const update = useCallback(() => {
+  const update = useCallback((frameTime: number) => {
+    const elapsed = lastFrameTimeRef.current === null ? 0 : frameTime - lastFrameTimeRef.current;
+    lastFrameTimeRef.current = frameTime;
     if (isPaused) { reqRef.current = requestAnimationFrame(update); return; }
 
-    const state = gameState.current;
-
-    // -- GOAL RESET SEQUENCE (ANIMATED) --
-    if (state.matchState === STATE.RESETTING) {
-        const alpha = 0.1;
-        state.ball.x = lerp(state.ball.x, state.resetTarget.ball.x, alpha);
-        state.ball.y = lerp(state.ball.y, state.resetTarget.ball.y, alpha);
-        state.ball.vx = 0;
-        state.ball.vy = 0;
-
-        ['red', 'blue'].forEach((team: string) => {
-            state[team as 'red' | 'blue'].forEach((p: Player, i: number) => {
-                if (state.resetTarget.resetPlayers) {
-                    p.x = lerp(p.x, state.resetTarget[team][i].x, alpha);
-                    p.y = lerp(p.y, state.resetTarget[team][i].y, alpha);
-                }
-                p.vx = 0;
-                p.vy = 0;
-            });
-        });
-
-        setRenderBall({...state.ball});
-        setRenderRed([...state.red]);
-        setRenderBlue([...state.blue]);
-        reqRef.current = requestAnimationFrame(update);
-        return;
-    }
+    const engine = engineRef.current!;
+    const events: MatchEvent[] = [];
+    let ticks = 0;
+
+    // Run whole simulation ticks; the speed slider only changes how many run per second
+    const alpha = loopRef.current.advance(elapsed, simSpeed, () => {
+      prevSnapshotRef.current = takeSnapshot(engine.getState());
+      const inputs = { sectorAssignments: pendingSectorsRef.current, strategies: pendingStrategiesRef.current };
+      pendingSectorsRef.current = [];
+      pendingStrategiesRef.current = {};
+      const stepped = engine.step(TICK_DT, inputs);
+      recorderRef.current?.recordTick(stepped, inputs);
+      events.push(...stepped.events);
+      ticks++;
+    });
 
-    // -- NORMAL PLAY --
-    const dt = simSpeed;
-    let b = state.ball;
-    let nextX = b.x + b.vx * dt;
-    let nextY = b.y + b.vy * dt;
-    let frictionFactor = Math.pow(BASE_FRICTION, dt);
-    let nextVx = b.vx * frictionFactor;
-    let nextVy = b.vy * frictionFactor;
-
-    // Bounds Check (REMOVED EARLY RETURNS TO FIX FREEZE)
-    if (nextX < 0) {
-        if (isGoal(nextX, nextY)) { triggerGoal('RED'); }
-        else { triggerOut('CORNER', 20, nextY < FIELD_HEIGHT/2 ? 20 : FIELD_HEIGHT-20); }
-    }
-    else if (nextX > FIELD_WIDTH) {
-        if (isGoal(nextX, nextY)) { triggerGoal('BLUE'); }
-        else { triggerOut('GOAL KICK', FIELD_WIDTH-50, FIELD_HEIGHT/2); }
-    }
-    else if (nextY < 0) {
-        triggerOut('THROW IN', b.x, 20);
-    }
-    else if (nextY > FIELD_HEIGHT) {
-        triggerOut('THROW IN', b.x, FIELD_HEIGHT-20);
-    }
-    else {
-        // Apply movement only if safe
-        b.x = nextX; b.y = nextY; b.vx = nextVx; b.vy = nextVy;
-    }
+    const state = engine.getState();
+    handleMatchEvents(events);
 
-    const processTeam = (team: Player[], isRed: boolean, opponents: Player[]) => {
-       kickCooldowns.current.forEach((val, key) => {
-          if (key.startsWith(isRed ? 'r' : 'b')) {
-             if (val > 0) kickCooldowns.current.set(key, val - dt);
-             else kickCooldowns.current.delete(key);
-          }
-       });
-
-       let chaserId: string | null = null;
-       let minDist = Infinity;
-       team.forEach(p => {
-         if (p.role !== 'GK') {
-           const d = Math.hypot(b.x - p.x, b.y - p.y);
-           if (d < minDist) { minDist = d; chaserId = p.id; }
-         }
-       });
-
-       team.forEach((p) => {
-          let tx = p.x, ty = p.y;
-          let accel = 0.5;
-
-          if (p.role === 'GK') {
-             tx = isRed ? FIELD_WIDTH - 40 : 40;
-             ty = Math.max(GOAL_TOP, Math.min(GOAL_BOTTOM, b.y));
-             accel = 0.4;
-          } else {
-             // --- TACTICAL OVERRIDE (RED ONLY) ---
-             if (isRed && lockedPlayersRef.current.has(p.id)) {
-                 const lock = lockedPlayersRef.current.get(p.id)!;
-
-                 // -- DYNAMIC POSITIONING WITHIN SECTOR --
-                 const sectorId = lock.targetSector;
-                 const sectorW = FIELD_WIDTH / 3;
-                 const sectorH = FIELD_HEIGHT / 3;
-                 const col = sectorId % 3;
-                 const row = Math.floor(sectorId / 3);
-
-                 // Bounds of the sector
-                 const minX = col * sectorW + 10; // +10 Padding
-                 const maxX = (col + 1) * sectorW - 10;
-                 const minY = row * sectorH + 10;
-                 const maxY = (row + 1) * sectorH - 10;
-
-                 // Default Dynamic Logic: Follow Ball projected into this sector
-                 // If ball is inside sector -> Go to ball
-                 // If ball is outside -> Go to edge closest to ball
-                 // If guarding -> Bias towards goal side of sector
-
-                 // 1. Start with ball position
-                 let idealX = b.x;
-                 let idealY = b.y;
-
-                 // 2. Goal Defense Bias (Stay between ball and our goal if defending)
-                 if (b.x > p.x) { // Ball is ahead (we are behind)
-                     idealX -= 50; // Stand slightly behind ball line
-                 }
-
-                 // 3. Clamp strict to sector
-                 tx = Math.max(minX, Math.min(maxX, idealX));
-                 ty = Math.max(minY, Math.min(maxY, idealY));
-
-                 // 4. Update Timer
-                 lock.timer -= dt;
-                 if (lock.timer <= 0) {
-                     lockedPlayersRef.current.delete(p.id);
-                     if (lockedPlayersRef.current.size === 0) setLockedPlayersUI(new Map());
-                 }
-                 accel = 0.8; // Active tactical movement
-             }
-             else if (p.id === chaserId) {
-                 tx = b.x; ty = b.y;
-                 accel = 0.8;
-             }
-             else {
-                 const dir = isRed ? -1 : 1;
-                 const roleIdx = parseInt(p.id.replace(/[rb]/, ''));
-                 if (roleIdx === 1) { tx = b.x - (200 * dir); ty = b.y + 40; }
-                 else if (roleIdx === 2) { tx = b.x - (50 * dir); ty = b.y - 60; }
-                 else { tx = b.x + (100 * dir); ty = b.y + 20; }
-                 tx = Math.max(80, Math.min(FIELD_WIDTH-80, tx));
-                 ty = Math.max(80, Math.min(FIELD_HEIGHT-80, ty));
-             }
-          }
+    const b = state.ball;
 
-          const dx = tx - p.x;
-          const dy = ty - p.y;
-          const angle = Math.atan2(dy, dx);
-
-          let frictionFactor = Math.pow(BASE_FRICTION, dt);
-          p.vx = p.vx * frictionFactor + Math.cos(angle) * accel * dt;
-          p.vy = p.vy * frictionFactor + Math.sin(angle) * accel * dt;
-
-          [...team, ...opponents].forEach(other => {
-              if (other.id !== p.id) {
-                  const d = Math.hypot(p.x - other.x, p.y - other.y);
-                  if (d < PLAYER_RADIUS * 2.2) {
-                      const pushAng = Math.atan2(p.y - other.y, p.x - other.x);
-                      const force = (PLAYER_RADIUS*2.5 - d) * 0.15 * dt;
-                      p.vx += Math.cos(pushAng) * force;
-                      p.vy += Math.sin(pushAng) * force;
-                  }
-              }
+    // Knowledge only changes while the ball is live
+    if (ticks > 0 && state.matchState === STATE.PLAYING) {
+      // Update trajectory predictions for all players
+      const allPlayers = [...state.red, ...state.blue];
+      const currentBallPrediction = predictBallTrajectory(b.x, b.y, b.vx, b.vy, 3.0, 0.1, b.spin, {
+        z: b.z, vz: b.vz, physics: engine.physics, conditions: engine.conditions,
+        lastTouch: state.lastTouch?.team ?? null, sidesSwitched: state.sidesSwitched
+      });
+      const matchClock = describeMatchClock(state.clock, engine.clockConfig);
+      // Interception uses each player's own top speed and acceleration
+      const interceptFor = (p: Player) => analyzeInterception(
+        p.x, p.y, getTopSpeed(p.attributes, p.stamina), currentBallPrediction, getSprintAcceleration(p.attributes), p
+      );
+
+      setPlayerKnowledge(prev => {
+        const updated = new Map(prev);
+
+        allPlayers.forEach(player => {
+          const knowledge = updated.get(player.id);
+          if (!knowledge) return;
+
+          const teammates = allPlayers.filter(p => p.id !== player.id && p.id.startsWith(player.id[0]));
+          const opponents = allPlayers.filter(p => !p.id.startsWith(player.id[0]));
+
+          // Calculate player's own trajectory
+          const myTrajectory = predictPlayerTrajectory(player.x, player.y, player.vx, player.vy);
+
+          // Analyze if this player can intercept the ball
+          const interceptionAnalysis = interceptFor(player);
+
+          // Predict teammate trajectories and interception capabilities
+          const teammatePredictions = teammates.map(t => {
+            const trajectory = predictPlayerTrajectory(t.x, t.y, t.vx, t.vy);
+            const intercept = interceptFor(t);
+            return {
+              playerId: t.id,
+              predictedPath: trajectory,
+              canInterceptBall: intercept.isPossible,
+              interceptPoint: intercept.interceptPoint,
+              timeToIntercept: intercept.timeToReach
+            };
           });
 
-          p.x += p.vx * dt;
-          p.y += p.vy * dt;
-
-          const dBall = Math.hypot(b.x - p.x, b.y - p.y);
-          if (dBall < PLAYER_RADIUS + BALL_RADIUS) {
-              if (!kickCooldowns.current.has(p.id)) {
-                  let kickAng = Math.atan2(b.y - p.y, b.x - p.x);
-                  const goalX = isRed ? 0 : FIELD_WIDTH;
-                  const distToGoal = Math.abs(p.x - goalX);
-                  const isFacingGoal = isRed ? (Math.abs(kickAng) > Math.PI/2) : (Math.abs(kickAng) < Math.PI/2);
-                  let power = DRIBBLE_POWER;
-                  if (distToGoal < 300 && isFacingGoal) power = SHOOT_POWER;
-                  else if (isFacingGoal) power = PASS_POWER;
-
-                  if (b.y < 80 && Math.sin(kickAng) < 0) { kickAng += 0.6; power=DRIBBLE_POWER; }
-                  if (b.y > FIELD_HEIGHT - 80 && Math.sin(kickAng) > 0) { kickAng -= 0.6; power=DRIBBLE_POWER; }
-
-                  b.vx += Math.cos(kickAng) * power;
-                  b.vy += Math.sin(kickAng) * power;
-                  kickCooldowns.current.set(p.id, KICK_COOLDOWN);
-              }
-          }
-       });
-    };
-
-    processTeam(state.red, true, state.blue);
-    processTeam(state.blue, false, state.red);
-
-    // Update trajectory predictions for all players
-    const allPlayers = [...state.red, ...state.blue];
-    const currentBallPrediction = predictBallTrajectory(b.x, b.y, b.vx, b.vy);
-
-    setPlayerKnowledge(prev => {
-      const updated = new Map(prev);
-
-      allPlayers.forEach(player => {
-        const knowledge = updated.get(player.id);
-        if (!knowledge) return;
-
-        const teammates = allPlayers.filter(p => p.id !== player.id && p.id.startsWith(player.id[0]));
-        const opponents = allPlayers.filter(p => !p.id.startsWith(player.id[0]));
-
-        // Calculate player's own trajectory
-        const myTrajectory = predictPlayerTrajectory(player.x, player.y, player.vx, player.vy);
-
-        // Analyze if this player can intercept the ball
-        const interceptionAnalysis = analyzeInterception(
-          player.x,
-          player.y,
-          5.0, // Max player speed
-          currentBallPrediction
-        );
-
-        // Predict teammate trajectories and interception capabilities
-        const teammatePredictions = teammates.map(t => {
-          const trajectory = predictPlayerTrajectory(t.x, t.y, t.vx, t.vy);
-          const intercept = analyzeInterception(t.x, t.y, 5.0, currentBallPrediction);
-          return {
-            playerId: t.id,
-            predictedPath: trajectory,
-            canInterceptBall: intercept.isPossible,
-            interceptPoint: intercept.interceptPoint,
-            timeToIntercept: intercept.timeToReach
-          };
-        });
+          // Predict opponent trajectories and interception capabilities
+          const opponentPredictions = opponents.map(o => {
+            const trajectory = predictPlayerTrajectory(o.x, o.y, o.vx, o.vy);
+            const intercept = interceptFor(o);
+            return {
+              playerId: o.id,
+              predictedPath: trajectory,
+              canInterceptBall: intercept.isPossible,
+              interceptPoint: intercept.interceptPoint,
+              timeToIntercept: intercept.timeToReach
+            };
+          });
 
-        // Predict opponent trajectories and interception capabilities
-        const opponentPredictions = opponents.map(o => {
-          const trajectory = predictPlayerTrajectory(o.x, o.y, o.vx, o.vy);
-          const intercept = analyzeInterception(o.x, o.y, 4.5, currentBallPrediction); // Slightly slower
-          return {
-            playerId: o.id,
-            predictedPath: trajectory,
-            canInterceptBall: intercept.isPossible,
-            interceptPoint: intercept.interceptPoint,
-            timeToIntercept: intercept.timeToReach
-          };
+          updated.set(player.id, {
+            ...knowledge,
+            currentScore: { red: state.score.red, blue: state.score.blue },
+            ...getGoalSides(knowledge.team, state),
+            matchClock,
+            myStamina: player.stamina,
+            teammateStamina: teammates.map(t => ({ playerId: t.id, stamina: t.stamina })),
+            ballPrediction: currentBallPrediction,
+            myTrajectory,
+            teammatePredictions,
+            opponentPredictions,
+            canInterceptBall: interceptionAnalysis.isPossible,
+            myInterceptPoint: interceptionAnalysis.interceptPoint,
+            timeToInterceptBall: interceptionAnalysis.timeToReach
+          });
         });
 
-        updated.set(player.id, {
-          ...knowledge,
-          currentScore: { red: score.red, blue: score.blue },
-          ballPrediction: currentBallPrediction,
-          myTrajectory,
-          teammatePredictions,
-          opponentPredictions,
-          canInterceptBall: interceptionAnalysis.isPossible,
-          myInterceptPoint: interceptionAnalysis.interceptPoint,
-          timeToInterceptBall: interceptionAnalysis.timeToReach
-        });
+        return updated;
       });
+    }
 
-      return updated;
-    });
-
-    setRenderBall({...b});
-    setRenderRed([...state.red]);
-    setRenderBlue([...state.blue]);
-    if (lockedPlayersRef.current.size !== lockedPlayersUI.size) {
-        setLockedPlayersUI(new Map(lockedPlayersRef.current));
+    // Render between the last two ticks so motion stays smooth at any refresh rate
+    const view = prevSnapshotRef.current
+      ? interpolateSnapshots(prevSnapshotRef.current, state, alpha)
+      : takeSnapshot(state);
+    setRenderBall(view.ball);
+    setRenderRed(view.red);
+    setRenderBlue(view.blue);
+    if (state.lockedPlayers.size !== lockedPlayersUI.size) {
+        setLockedPlayersUI(new Map(state.lockedPlayers));
     }
 
     // Device sync: throttle to ~10 FPS
@@ -897,6 +621,7 @@ export default function TacticalFootball() {
   // Render a 3x3 sector sheet and push to device
   const renderDeviceSheet = async () => {
     if (!mxRef.current || !mxRef.current.device) return;
+    const { ball, red, blue, lockedPlayers } = engineRef.current!.getState();
 
     const KEY_SIZE = 118;
     const GAP = 40;
@@ -927,8 +652,8 @@ export default function TacticalFootball() {
     const contentHeight = ROWS * sectorH + (ROWS - 1) * GAP;
 
     // Map ball from field -> sheet content area (respecting origin and gaps)
-    const sheetBallX = ORIGIN_X + (gameState.current.ball.x / FIELD_WIDTH) * contentWidth;
-    const sheetBallY = ORIGIN_Y + (gameState.current.ball.y / FIELD_HEIGHT) * contentHeight;
+    const sheetBallX = ORIGIN_X + (ball.x / FIELD_WIDTH) * contentWidth;
+    const sheetBallY = ORIGIN_Y + (ball.y / FIELD_HEIGHT) * contentHeight;
 
     // Determine active sector by mapping sheetBall into grid cells (accounting for gaps)
     const sectorCol = Math.min(COLS - 1, Math.max(0, Math.floor((sheetBallX - ORIGIN_X) / (sectorW + GAP))));
@@ -938,7 +663,7 @@ export default function TacticalFootball() {
     // Only highlight sectors that were explicitly selected AND still have an active lock.
     const highlightSet = new Set<number>();
     (selectedSectors || []).forEach(sec => {
-      const stillLocked = Array.from(lockedPlayersRef.current.values()).some(l => l.targetSector === sec);
+      const stillLocked = Array.from(lockedPlayers.values()).some(l => l.targetSector === sec);
       if (stillLocked) highlightSet.add(sec);
     });
 
@@ -992,7 +717,7 @@ export default function TacticalFootball() {
     const drawPlayer = (p: Player, color: string) => {
       const px = ORIGIN_X + (p.x / FIELD_WIDTH) * contentWidth;
       const py = ORIGIN_Y + (p.y / FIELD_HEIGHT) * contentHeight;
-      const isLocked = lockedPlayersRef.current.has(p.id);
+      const isLocked = lockedPlayers.has(p.id);
       const isGK = p.role === 'GK';
 
       // shadow/halo for locked players
@@ -1039,9 +764,9 @@ export default function TacticalFootball() {
     };
 
     // Draw red team
-    (gameState.current.red || []).forEach(p => drawPlayer(p, '#ff6b6bd5'));
+    red.forEach(p => drawPlayer(p, '#ff6b6bd5'));
     // Draw blue team
-    (gameState.current.blue || []).forEach(p => drawPlayer(p, '#60a5fab9'));
+    blue.forEach(p => drawPlayer(p, '#60a5fab9'));
 
     // Draw an outer border that matches the mapped field area on the device sheet
     sctx.strokeStyle = 'rgba(255,255,255,0.08)';
@@ -1070,6 +795,23 @@ export default function TacticalFootball() {
     };
   }, [update]);
 
+  // Keep the last match around so it can be opened in the replay viewer
+  useEffect(() => {
+    const saveReplay = () => {
+      if (!recorderRef.current) return;
+      try {
+        localStorage.setItem('lastReplay', JSON.stringify(recorderRef.current.getReplay()));
+      } catch (e) {
+        console.warn('Could not save replay:', e);
+      }
+    };
+    window.addEventListener('pagehide', saveReplay);
+    return () => {
+      saveReplay();
+      window.removeEventListener('pagehide', saveReplay);
+    };
+  }, []);
+
   // Handle canvas ready for background capture
   const handleBackgroundCanvasReady = useCallback((playerId: string, canvas: HTMLCanvasElement) => {
     // Give the canvas a moment to render before capturing
@@ -1158,12 +900,9 @@ export default function TacticalFootball() {
         try {
           console.log('🤖 Requesting AI decision for player', randomPlayerId, '- Knowledge sent to AI, awaiting response...');
 
-          // Get all available strategies
-          const allStrategies = [
-            ...GAME_KNOWLEDGE.strategyGuidelines.offensive,
-            ...GAME_KNOWLEDGE.strategyGuidelines.defensive,
-            ...GAME_KNOWLEDGE.strategyGuidelines.balanced,
-          ];
+          // Get all available strategies, built-in and user-defined
+          const registry = engineRef.current!.strategyRegistry;
+          const allStrategies = Object.values(registry).map(describeStrategy);
 
           // Call AI API (non-blocking)
           const response = await fetch('/api/select-strategy', {
@@ -1196,6 +935,22 @@ export default function TacticalFootball() {
             reasoning: data.reasoning
           });
 
+          // The engine plays the strategy from its next step; unrecognised picks leave play unchanged
+          const strategyId = findStrategy(registry, data.selectedStrategy ?? '');
+          const selectedStrategy = strategyId ? formatStrategy(registry[strategyId]) : data.selectedStrategy;
+          if (strategyId) {
+            pendingStrategiesRef.current[randomPlayerId] = strategyId;
+            setPlayerStrategies(prev => new Map(prev).set(randomPlayerId, strategyId));
+          }
+
+          recorderRef.current?.recordDecision({
+            tick: engineRef.current!.getState().tick,
+            playerId: randomPlayerId,
+            previousStrategy: playerKnowledgeRef.current.get(randomPlayerId)?.myCurrentStrategy || '',
+            selectedStrategy: data.selectedStrategy,
+            reasoning: data.reasoning
+          });
+
         // Update player knowledge with new strategy and thought
         setPlayerKnowledge(prev => {
           const updated = new Map(prev);
@@ -1213,7 +968,7 @@ export default function TacticalFootball() {
 
             updated.set(randomPlayerId, {
               ...currentKnowledge,
-              myCurrentStrategy: data.selectedStrategy,
+              myCurrentStrategy: selectedStrategy,
               strategyThoughts: updatedThoughts,
             });
 
@@ -1224,7 +979,7 @@ export default function TacticalFootball() {
                 const teammateKnowledge = updated.get(pid);
                 if (teammateKnowledge) {
                   const updatedTeammateStrategies = teammateKnowledge.teammateStrategies.map(ts =>
-                    ts.playerId === randomPlayerId ? { ...ts, strategy: data.selectedStrategy } : ts
+                    ts.playerId === randomPlayerId ? { ...ts, strategy: selectedStrategy } : ts
                   );
                   updated.set(pid, {
                     ...teammateKnowledge,
@@ -1246,26 +1001,121 @@ export default function TacticalFootball() {
     return () => clearInterval(strategyUpdateInterval);
   }, [renderRed.length, renderBlue.length]); // Don't include playerKnowledge to avoid resetting interval
 
+  const renderFormationSelect = (team: TeamSide) => (
+    <select
+      value={formations[team]}
+      onChange={(e) => startNewMatch(clockConfig, matchRules, teamSize, { ...formations, [team]: e.target.value })}
+      className="mt-1 bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-[10px] text-zinc-400"
+      title="Formation (restarts the match)"
+    >
+      {getFormationsForSize(teamSize).map(f => <option key={f.id} value={f.id}>{f.id}</option>)}
+    </select>
+  );
+
+  const renderControllerSelect = (team: TeamSide) => (
+    <select
+      value={engineRef.current!.controllers[team].id}
+      onChange={(e) => startNewMatch(clockConfig, matchRules, teamSize, formations, undefined, {
+        ...engineRef.current!.controllers,
+        [team]: getTeamController(e.target.value)
+      })}
+      className="mt-1 bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-[10px] text-zinc-400"
+      title={`Team AI: ${engineRef.current!.controllers[team].description} (restarts the match)`}
+    >
+      {TEAM_CONTROLLERS.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+    </select>
+  );
+
+  const strategyRegistry = engineRef.current.strategyRegistry;
+  const renderStrategies = new Map([...renderRed, ...renderBlue].map(p =>
+    [p.id, strategyRegistry[playerStrategies.get(p.id) ?? DEFAULT_STRATEGY]]
+  ));
+
   return (
     <div className="min-h-screen bg-zinc-950 flex flex-col items-center py-8 px-4 font-sans text-zinc-300 gap-4">
       {/* Header */}
       <div className="w-full max-w-3xl flex items-center justify-between mb-6 bg-zinc-900/50 p-4 rounded-2xl border border-zinc-800 shadow-xl">
         <div className="flex items-center gap-4 w-1/3">
             <div className="w-12 h-12 bg-red-900/50 rounded-xl border border-red-700 flex items-center justify-center"><Swords className="text-red-400" size={24} /></div>
-            <div className="flex flex-col"><span className="text-[10px] text-red-400 font-bold tracking-widest uppercase">Player FC</span><span className="text-3xl font-black text-white leading-none">{score.red}</span></div>
+            <div className="flex flex-col"><span className="text-[10px] text-red-400 font-bold tracking-widest uppercase">Player FC</span><span className="text-3xl font-black text-white leading-none">{score.red}</span>{renderFormationSelect('red')}{renderControllerSelect('red')}</div>
         </div>
         <div className="flex flex-col items-center w-1/3">
             <div className="bg-black/40 px-4 py-1 rounded-full border border-white/10 flex items-center gap-2">
-                <div className={`w-2 h-2 rounded-full ${gameState.current.matchState === STATE.PLAYING ? 'bg-emerald-500 animate-pulse' : 'bg-amber-500'}`} />
-                <span className="text-[10px] font-bold text-white uppercase tracking-wider">{gameState.current.matchState === STATE.PLAYING ? 'Live' : 'Stoppage'}</span>
+                <div className={`w-2 h-2 rounded-full ${engineRef.current.getState().matchState === STATE.PLAYING ? 'bg-emerald-500 animate-pulse' : 'bg-amber-500'}`} />
+                <span className="text-[10px] font-bold text-white uppercase tracking-wider">{engineRef.current.getState().matchState === STATE.PLAYING ? 'Live' : 'Stoppage'}</span>
+                <span className="text-[10px] text-zinc-600">|</span>
+                <span className="text-xs font-mono font-bold text-white">{formatMatchClock(engineRef.current.getState().clock)}</span>
+                <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-wider">{getPeriodLabel(engineRef.current.getState().clock.period)}</span>
+            </div>
+            {/* Clock Settings (changing them restarts the match) */}
+            <div className="flex items-center gap-2 mt-2 text-[10px] text-zinc-500">
+                <select
+                  value={clockConfig.halfMinutes}
+                  onChange={(e) => startNewMatch({ ...clockConfig, halfMinutes: parseFloat(e.target.value) })}
+                  className="bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-zinc-400"
+                  title="Half length (restarts the match)"
+                >
+                  {HALF_LENGTH_OPTIONS.map(m => <option key={m} value={m}>{m} min halves</option>)}
+                </select>
+                <select
+                  value={teamSize}
+                  onChange={(e) => startNewMatch(clockConfig, matchRules, parseInt(e.target.value) as TeamSize)}
+                  className="bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-zinc-400"
+                  title="Players per side (restarts the match)"
+                >
+                  {TEAM_SIZES.map(n => <option key={n} value={n}>{n}-a-side</option>)}
+                </select>
+                <label className="flex items-center gap-1 cursor-pointer" title="Play extra time when level after the second half (restarts the match)">
+                  <input
+                    type="checkbox"
+                    checked={clockConfig.extraTime}
+                    onChange={(e) => startNewMatch({ ...clockConfig, extraTime: e.target.checked })}
+                    className="accent-emerald-500"
+                  />
+                  Extra time
+                </label>
+                <label className="flex items-center gap-1 cursor-pointer" title="Offside rule; turn off for futsal-style play (restarts the match)">
+                  <input
+                    type="checkbox"
+                    checked={matchRules.offside}
+                    onChange={(e) => startNewMatch(clockConfig, { ...matchRules, offside: e.target.checked })}
+                    className="accent-emerald-500"
+                  />
+                  Offside
+                </label>
+                <select
+                  value={engineRef.current.conditions.id}
+                  onChange={(e) => startNewMatch(clockConfig, matchRules, teamSize, formations, undefined, undefined, getMatchConditions(e.target.value))}
+                  className="bg-zinc-900 border border-zinc-800 rounded px-1 py-0.5 text-zinc-400"
+                  title={`Weather: ${engineRef.current.conditions.description} (restarts the match)`}
+                >
+                  {MATCH_CONDITIONS.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                </select>
+                <button onClick={() => startNewMatch()} className="p-1 rounded text-zinc-500 hover:text-white hover:bg-zinc-800 transition-colors" title="New match">
+                  <RotateCcw size={12} />
+                </button>
             </div>
         </div>
         <div className="flex items-center gap-4 w-1/3 justify-end">
-            <div className="flex flex-col items-end"><span className="text-[10px] text-blue-400 font-bold tracking-widest uppercase">Cpu United</span><span className="text-3xl font-black text-white leading-none">{score.blue}</span></div>
+            <div className="flex flex-col items-end"><span className="text-[10px] text-blue-400 font-bold tracking-widest uppercase">Cpu United</span><span className="text-3xl font-black text-white leading-none">{score.blue}</span>{renderFormationSelect('blue')}{renderControllerSelect('blue')}</div>
             <div className="w-12 h-12 bg-blue-900/50 rounded-xl border border-blue-700 flex items-center justify-center"><Shield className="text-blue-400" size={24} /></div>
         </div>
       </div>
 
+      {/* Card Log */}
+      {engineRef.current.getState().cards.length > 0 && (
+        <div className="w-full max-w-3xl flex flex-wrap items-center gap-2 -mt-4 mb-2 px-2 text-[11px]">
+          <span className="text-[10px] font-bold text-zinc-500 uppercase tracking-wider">Cards</span>
+          {engineRef.current.getState().cards.map((c, idx) => (
+            <span key={idx} className="flex items-center gap-1 bg-zinc-900 border border-zinc-800 px-2 py-0.5 rounded" title={c.foul.replace('_', ' ').toLowerCase()}>
+              <span className={`inline-block w-2 h-3 rounded-sm ${c.card === 'RED' ? 'bg-red-500' : 'bg-yellow-400'}`} />
+              <span className={`font-bold ${c.team === 'red' ? 'text-red-400' : 'text-blue-400'}`}>{c.playerId}</span>
+              <span className="font-mono text-zinc-500">{c.clock}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Controls */}
       <div className="w-full max-w-3xl flex items-center justify-end gap-8 mb-2 pr-2">
           {/* Mode Switcher */}
@@ -1309,8 +1159,43 @@ export default function TacticalFootball() {
                 Reset
               </button>
             )}
+            {isCustomAlgorithmActive() && (
+              <button
+                onClick={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  const playingOnAlgorithm = engineRef.current!.physics !== DEFAULT_PHYSICS;
+                  startNewMatch(clockConfig, matchRules, teamSize, formations, undefined, undefined, undefined,
+                    playingOnAlgorithm ? DEFAULT_PHYSICS : getCustomAlgorithmPhysics() ?? DEFAULT_PHYSICS);
+                }}
+                className={`text-[10px] px-1.5 py-0.5 border rounded transition-colors ${engineRef.current.physics !== DEFAULT_PHYSICS
+                  ? 'bg-emerald-900/50 hover:bg-emerald-800/70 border-emerald-700 text-emerald-300'
+                  : 'bg-zinc-800 hover:bg-zinc-700 border-zinc-700 text-zinc-400'}`}
+                title="Play the match on this algorithm's physics as well as predicting with it (restarts the match)"
+              >
+                {engineRef.current.physics !== DEFAULT_PHYSICS ? 'Match physics ✓' : 'Play on it'}
+              </button>
+            )}
           </Link>
 
+          {/* Replay Download & Viewer Link */}
+          <div className="flex items-center gap-1 bg-zinc-900 border border-zinc-800 p-1 rounded-lg">
+            <button
+              onClick={() => recorderRef.current && downloadReplay(recorderRef.current.getReplay())}
+              className="px-2 py-0.5 rounded text-xs font-mono text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+              title="Download this match as a replay file"
+            >
+              💾 Replay
+            </button>
+            <Link
+              href="/replay"
+              className="px-2 py-0.5 rounded text-xs font-mono text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+              title="Open the replay viewer"
+            >
+              🎞️ Replays
+            </Link>
+          </div>
+
           <div className="flex items-center gap-2 bg-zinc-900 border border-zinc-800 px-3 py-1.5 rounded-lg">
               <SlidersHorizontal size={14} className="text-zinc-500" />
               <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-wider">Speed: {simSpeed.toFixed(1)}x</span>
@@ -1336,9 +1221,9 @@ export default function TacticalFootball() {
       </div>
 
       {is3DMode ? (
-        <Field3D redTeam={renderRed} blueTeam={renderBlue} ball={renderBall} lockedPlayers={lockedPlayersUI} announcerMsg={announcerMsg} />
+        <Field3D redTeam={renderRed} blueTeam={renderBlue} ball={renderBall} lockedPlayers={lockedPlayersUI} strategies={renderStrategies} conditions={engineRef.current.conditions} announcerMsg={announcerMsg} />
       ) : (
-        <MainField redTeam={renderRed} blueTeam={renderBlue} ball={renderBall} lockedPlayers={lockedPlayersUI} matchState={gameState.current.matchState} announcerMsg={announcerMsg} />
+        <MainField redTeam={renderRed} blueTeam={renderBlue} ball={renderBall} lockedPlayers={lockedPlayersUI} matchState={engineRef.current.getState().matchState} conditions={engineRef.current.conditions} announcerMsg={announcerMsg} />
       )}
 
       <div className="flex flex-col items-center gap-1 mt-8">
@@ -1361,8 +1246,9 @@ export default function TacticalFootball() {
       <StrategyPanel
         redTeam={renderRed}
         blueTeam={renderBlue}
-        ball={renderBall}
         lockedPlayers={lockedPlayersUI}
+        strategies={renderStrategies}
+        available={Object.values(strategyRegistry)}
         onPlayerClick={(id) => {
           if (appMode === 'GAME') return;
           setSelectedPlayer(id);
@@ -1370,6 +1256,14 @@ export default function TacticalFootball() {
         selectedPlayer={appMode === 'POV' ? selectedPlayer : null}
       />
 
+      <StrategyEditor
+        userStrategies={engineRef.current.userStrategies}
+        onSave={(strategies) => {
+          saveUserStrategies(strategies);
+          startNewMatch(clockConfig, matchRules, teamSize, formations, strategies);
+        }}
+      />
+
       {/* Background POV Capture (visually hidden but still rendered) */}
       {appMode === 'POV' && backgroundCapturePlayer && (() => {
         const allPlayers = [...renderRed, ...renderBlue];
@@ -1405,6 +1299,8 @@ export default function TacticalFootball() {
             ball={renderBall}
             isRed={isRed}
             knowledge={knowledge}
+            behaviour={engineRef.current.controllers[isRed ? 'red' : 'blue'].behaviour}
+            activeNode={engineRef.current.getState().activeNodes.get(selectedPlayer)}
           />
         ) : null;
       })()}
@@ -0,0 +1,160 @@
+// Batch Match Simulator CLI
+// Usage: npm run simulate -- --matches 500 --seed 42 --algorithm my-algo.json --blue SWARM
+
+import { readFileSync, writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { simulateBatch, formatBatchReport } from '../utils/matchSimulator';
+import { TEAM_SIZES } from '../utils/formations';
+import { TEAM_CONTROLLERS } from '../utils/teamControllers';
+import { MATCH_CONDITIONS } from '../utils/matchConditions';
+import { createBehaviourController } from '../utils/matchEngine';
+import { getAlgorithmPhysics } from '../utils/customTrajectoryPredictor';
+import { TeamSide, TeamSize } from '../types/match';
+import { CustomAlgorithmDefinition, validateAlgorithm } from '../types/customAlgorithm';
+import { BehaviourTreeDefinition, validateBehaviourTree } from '../types/behaviour';
+import { MatchConditions, validateMatchConditions } from '../types/conditions';
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+Options:
+  --matches <n>       Number of matches to play (default 100)
+  --seed <n>          Seed of the first match; match i uses seed + i (default 1)
+  --minutes <n>       Regulation minutes per match, split into two halves (default 5)
+  --algorithm <file>  CustomAlgorithmDefinition JSON used for ball predictions
+  --algorithm-physics Also play the matches on the algorithm's physics
+  --no-offside        Play without the offside rule (futsal style)
+  --team-size <n>     Players per side: ${TEAM_SIZES.join(', ')} (default 4)
+  --red <id|file>     Team controller for red: ${TEAM_CONTROLLERS.map(c => c.id).join(', ')},
+                      or a BehaviourTreeDefinition JSON file (default DEFAULT)
+  --blue <id|file>    Team controller for blue (default DEFAULT)
+  --conditions <id|file>
+                      Weather and pitch: ${MATCH_CONDITIONS.map(c => c.id).join(', ')},
+                      or a MatchConditions JSON file (default CALM)
+  --json              Print the full result as JSON instead of a report
+  --out <file>        Also write the full JSON result to a file
+  --help              Show this message`;
+
+const fail = (message: string): never => {
+  console.error(`Error: ${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const toNumber = (value: string | undefined, fallback: number, name: string) => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isFinite(n)) fail(`--${name} must be a number`);
+  return n;
+};
+
+const loadAlgorithm = (path: string): CustomAlgorithmDefinition => {
+  let json: any;
+  try {
+    json = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (e: any) {
+    return fail(`Could not read algorithm "${path}": ${e.message}`);
+  }
+  const validation = validateAlgorithm(json);
+  if (!validation.valid) {
+    fail(`Invalid algorithm "${path}":\n  - ${validation.errors.join('\n  - ')}`);
+  }
+  return json as CustomAlgorithmDefinition;
+};
+
+const loadBehaviourTree = (path: string): BehaviourTreeDefinition => {
+  let json: any;
+  try {
+    json = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (e: any) {
+    return fail(`Could not read behaviour tree "${path}": ${e.message}`);
+  }
+  const validation = validateBehaviourTree(json);
+  if (!validation.valid) {
+    fail(`Invalid behaviour tree "${path}":\n  - ${validation.errors.join('\n  - ')}`);
+  }
+  return json as BehaviourTreeDefinition;
+};
+
+const loadConditions = (id: string | undefined): MatchConditions | undefined => {
+  if (id === undefined) return undefined;
+  if (!id.endsWith('.json')) {
+    return MATCH_CONDITIONS.find(c => c.id === id.toUpperCase()) ?? fail(`Unknown --conditions "${id}"`);
+  }
+  let json: any;
+  try {
+    json = JSON.parse(readFileSync(id, 'utf8'));
+  } catch (e: any) {
+    return fail(`Could not read conditions "${id}": ${e.message}`);
+  }
+  const validation = validateMatchConditions(json);
+  if (!validation.valid) {
+    fail(`Invalid conditions "${id}":\n  - ${validation.errors.join('\n  - ')}`);
+  }
+  return json as MatchConditions;
+};
+
+const loadController = (id: string | undefined, side: TeamSide) => {
+  if (id === undefined) return undefined;
+  if (id.endsWith('.json')) return createBehaviourController(loadBehaviourTree(id));
+  const controller = TEAM_CONTROLLERS.find(c => c.id === id.toUpperCase());
+  return controller ?? fail(`Unknown --${side} controller "${id}"`);
+};
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      matches: { type: 'string' },
+      seed: { type: 'string' },
+      minutes: { type: 'string' },
+      algorithm: { type: 'string' },
+      'algorithm-physics': { type: 'boolean', default: false },
+      'no-offside': { type: 'boolean', default: false },
+      'team-size': { type: 'string' },
+      red: { type: 'string' },
+      blue: { type: 'string' },
+      conditions: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      out: { type: 'string' },
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const matches = Math.floor(toNumber(values.matches, 100, 'matches'));
+  const seed = Math.floor(toNumber(values.seed, 1, 'seed'));
+  const minutes = toNumber(values.minutes, 5, 'minutes');
+  if (matches < 1) fail('--matches must be at least 1');
+  if (minutes <= 0) fail('--minutes must be greater than 0');
+  const teamSize = toNumber(values['team-size'], 4, 'team-size') as TeamSize;
+  if (!TEAM_SIZES.includes(teamSize)) fail(`--team-size must be one of ${TEAM_SIZES.join(', ')}`);
+
+  const algorithm = values.algorithm ? loadAlgorithm(values.algorithm) : null;
+  if (values['algorithm-physics'] && !algorithm) fail('--algorithm-physics needs an --algorithm');
+  const physics = algorithm && values['algorithm-physics'] ? getAlgorithmPhysics(algorithm) : undefined;
+  const controllers = { red: loadController(values.red, 'red'), blue: loadController(values.blue, 'blue') };
+  const conditions = loadConditions(values.conditions);
+
+  const startTime = Date.now();
+  const result = simulateBatch({ matches, seed, minutes, algorithm, offside: !values['no-offside'], teamSize, controllers, conditions, physics }, (done, total) => {
+    if (!values.json && process.stderr.isTTY) {
+      process.stderr.write(`\rSimulating ${done}/${total}...`);
+    }
+  });
+  if (!values.json && process.stderr.isTTY) process.stderr.write('\n');
+
+  if (values.out) {
+    writeFileSync(values.out, JSON.stringify(result, null, 2));
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    console.log(formatBatchReport(result));
+    console.log(`\nCompleted in ${((Date.now() - startTime) / 1000).toFixed(1)}s`);
+  }
+}
+
+main();
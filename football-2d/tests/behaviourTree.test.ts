@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { BehaviourVocabulary, DEFAULT_BEHAVIOUR, describeBehaviourNode, runBehaviourTree } from '../utils/behaviourTree';
+import {
+  BEHAVIOUR_ACTIONS,
+  BEHAVIOUR_CONDITIONS,
+  BehaviourAction,
+  BehaviourCondition,
+  BehaviourNode,
+  validateBehaviourTree
+} from '../types/behaviour';
+
+// Conditions hold when they are in the context; actions return their own name
+type Vocabulary = BehaviourVocabulary<Set<BehaviourCondition>, BehaviourAction>;
+const vocabulary: Vocabulary = { conditions: {} as Vocabulary['conditions'], actions: {} as Vocabulary['actions'] };
+BEHAVIOUR_CONDITIONS.forEach(c => { vocabulary.conditions[c] = ctx => ctx.has(c); });
+BEHAVIOUR_ACTIONS.forEach(a => { vocabulary.actions[a] = () => a; });
+
+const run = (root: BehaviourNode, ...holding: BehaviourCondition[]) => runBehaviourTree(root, new Set(holding), vocabulary);
+
+describe('runBehaviourTree', () => {
+  const root = DEFAULT_BEHAVIOUR.root;
+
+  it('takes the first branch whose conditions all hold', () => {
+    assert.deepEqual(run(root, 'HAS_BALL', 'UNDER_PRESSURE', 'CHASER'), { result: 'SHIELD', path: [0, 2] });
+    assert.deepEqual(run(root, 'CHASER'), { result: 'CHASE', path: [1, 1] });
+  });
+
+  it('falls through a sequence that fails part way', () => {
+    assert.deepEqual(run(root, 'HAS_BALL', 'CHASER'), { result: 'CHASE', path: [1, 1] });
+  });
+
+  it('inverts conditions marked not', () => {
+    assert.deepEqual(run(root, 'IN_PRESS_RANGE'), { result: 'PRESS', path: [2, 4] });
+    assert.deepEqual(run(root, 'IN_PRESS_RANGE', 'TEAM_HAS_BALL'), { result: 'STRATEGY', path: [3] });
+  });
+
+  it('returns null when no action is reached', () => {
+    const tree: BehaviourNode = {
+      type: 'selector',
+      children: [{ type: 'sequence', children: [{ type: 'condition', condition: 'WINNING' }, { type: 'action', action: 'HOLD' }] }]
+    };
+    assert.equal(run(tree), null);
+    assert.deepEqual(run(tree, 'WINNING'), { result: 'HOLD', path: [0, 1] });
+  });
+});
+
+describe('validateBehaviourTree', () => {
+  it('accepts the default tree', () => {
+    assert.deepEqual(validateBehaviourTree(DEFAULT_BEHAVIOUR), { valid: true, errors: [] });
+  });
+
+  it('reports bad nodes by their path', () => {
+    const tree = {
+      id: 'BAD',
+      label: 'Bad',
+      description: 'Broken on purpose',
+      root: {
+        type: 'selector',
+        children: [
+          { type: 'condition', condition: 'BALL_WITHIN' },
+          { type: 'action', name: 'Sprint', action: 'RUN', effort: 2 },
+          { type: 'sequence', children: [] }
+        ]
+      }
+    };
+    assert.deepEqual(validateBehaviourTree(tree).errors, [
+      'root.0: BALL_WITHIN needs a "distance"',
+      `root.1 "Sprint": action must be one of ${BEHAVIOUR_ACTIONS.join(', ')}`,
+      'root.1 "Sprint": invalid effort (must be 0-1)',
+      'root.2: sequence needs a non-empty "children" array'
+    ]);
+  });
+});
+
+describe('describeBehaviourNode', () => {
+  it('labels conditions and actions for the debug view', () => {
+    assert.equal(describeBehaviourNode({ type: 'condition', condition: 'BALL_WITHIN', distance: 80, not: true }), 'not BALL_WITHIN 80px');
+    assert.equal(describeBehaviourNode({ type: 'action', name: 'Jog back', action: 'HOLD', effort: 0.5 }), 'Jog back · HOLD @ 50%');
+  });
+});
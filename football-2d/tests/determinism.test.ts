@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { MatchEngine } from '../utils/matchEngine';
+import { SeededRandom } from '../utils/seededRandom';
+import { TICK_DT } from '../utils/fixedTimestep';
+
+const play = (seed: number, ticks: number) => {
+  const engine = new MatchEngine({ seed });
+  for (let i = 0; i < ticks; i++) engine.step(TICK_DT);
+  return engine.getState();
+};
+
+describe('SeededRandom', () => {
+  it('repeats its sequence for the same seed only', () => {
+    const draw = (seed: number) => { const rng = new SeededRandom(seed); return Array.from({ length: 5 }, () => rng.next()); };
+    assert.deepEqual(draw(42), draw(42));
+    assert.notDeepEqual(draw(42), draw(43));
+    assert.ok(draw(42).every(n => n >= 0 && n < 1));
+  });
+});
+
+describe('MatchEngine determinism', () => {
+  it('plays the same match for the same seed', () => {
+    assert.deepEqual(play(7, 1200), play(7, 1200));
+  });
+
+  it('plays a different match for a different seed', () => {
+    const a = play(7, 1200);
+    const b = play(8, 1200);
+    assert.notDeepEqual({ ball: a.ball, red: a.red }, { ball: b.ball, red: b.red });
+  });
+});
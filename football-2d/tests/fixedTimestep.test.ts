@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { FixedTimestepLoop, TICK_RATE, interpolateSnapshots, takeSnapshot } from '../utils/fixedTimestep';
+import { MatchEngine } from '../utils/matchEngine';
+
+/**
+ * Ticks run in `seconds` of wall-clock time rendered at `fps` frames a second
+ */
+const countTicks = (fps: number, seconds: number, speed = 1) => {
+  const loop = new FixedTimestepLoop();
+  let ticks = 0;
+  for (let frame = 0; frame < fps * seconds; frame++) loop.advance(1000 / fps, speed, () => { ticks++; });
+  return ticks;
+};
+
+describe('FixedTimestepLoop', () => {
+  it('runs the same ticks whatever the display refresh rate', () => {
+    for (const fps of [30, 60, 144]) assert.ok(Math.abs(countTicks(fps, 10) - 10 * TICK_RATE) <= 1, `${fps} fps`);
+  });
+
+  it('scales only the ticks per second with the speed slider', () => {
+    assert.ok(Math.abs(countTicks(144, 10, 2) - 20 * TICK_RATE) <= 1);
+    assert.ok(Math.abs(countTicks(60, 10, 0.5) - 5 * TICK_RATE) <= 1);
+  });
+
+  it('drops time after a long stall instead of fast-forwarding', () => {
+    let ticks = 0;
+    const alpha = new FixedTimestepLoop().advance(5000, 1, () => { ticks++; });
+    assert.ok(ticks < TICK_RATE);
+    assert.ok(alpha >= 0 && alpha <= 1);
+  });
+
+  it('returns how far the next tick has got', () => {
+    const loop = new FixedTimestepLoop();
+    assert.equal(loop.advance(1000 / TICK_RATE / 4, 1, () => assert.fail('ran a tick early')), 0.25);
+  });
+});
+
+describe('interpolateSnapshots', () => {
+  const engine = new MatchEngine({ seed: 1 });
+  const prev = takeSnapshot(engine.getState());
+  const curr = takeSnapshot(engine.getState());
+  curr.ball = { ...curr.ball, x: prev.ball.x + 40, y: prev.ball.y - 20, z: 8 };
+  curr.red = curr.red.map(p => ({ ...p, x: p.x + 10 }));
+
+  it('blends ball and player positions between two ticks', () => {
+    const frame = interpolateSnapshots(prev, curr, 0.25);
+    assert.deepEqual({ x: frame.ball.x, y: frame.ball.y, z: frame.ball.z }, { x: prev.ball.x + 10, y: prev.ball.y - 5, z: 2 });
+    frame.red.forEach((p, i) => assert.equal(p.x, prev.red[i].x + 2.5));
+  });
+
+  it('shows the newer tick at the end of the interval', () => {
+    assert.deepEqual(interpolateSnapshots(prev, curr, 1), curr);
+  });
+
+  it('does not share objects with the snapshots it blends', () => {
+    const frame = interpolateSnapshots(prev, curr, 0.5);
+    assert.notEqual(frame.red[0], curr.red[0]);
+    assert.notEqual(frame.ball, curr.ball);
+  });
+});
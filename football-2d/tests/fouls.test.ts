@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createScene } from './helpers';
+import { PENALTY_AREA_DEPTH, PENALTY_SPOT_DISTANCE, STATE } from '../utils/matchEngine';
+import { MatchEvent, MatchState } from '../types/match';
+
+type FoulEvent = Extract<MatchEvent, { type: 'FOUL' }>;
+
+const fouls = (state: MatchState) => state.events.filter((e): e is FoulEvent => e.type === 'FOUL');
+const cardsShown = (state: MatchState) => state.events.flatMap(e => e.type === 'CARD' ? [e.card] : []);
+
+/**
+ * Blue's b1 runs into red carrier r1 from behind at (x, y), both heading the same way
+ */
+const tackleFromBehind = (x: number, y: number, dir: 1 | -1) => {
+  const scene = createScene();
+  scene.place('r1', x, y, 2 * dir, 0);
+  scene.place('b1', x - 20 * dir, y, 12 * dir, 0);
+  scene.setBall({ x: x + 15 * dir, y });
+  scene.state.possession = { playerId: 'r1', team: 'red', tick: 0 };
+  scene.state.lastTouch = { playerId: 'r1', team: 'red', tick: 0 };
+  return scene.step();
+};
+
+describe('contact fouls', () => {
+  it('calls a late challenge from behind on the carrier as a direct free kick', () => {
+    const state = tackleFromBehind(500, 450, 1);
+    const [foul] = fouls(state);
+    assert.equal(foul?.foul, 'FROM_BEHIND');
+    assert.equal(foul.playerId, 'b1');
+    assert.equal(foul.victimId, 'r1');
+    assert.equal(foul.restart, 'FREE KICK');
+    assert.equal(foul.team, 'red');
+    assert.deepEqual(cardsShown(state), []);
+  });
+
+  it('gives a penalty for a direct foul in the defenders\' own area', () => {
+    // Blue defends the left-hand goal in the first half
+    const state = tackleFromBehind(100, 300, -1);
+    const [foul] = fouls(state);
+    assert.equal(foul?.restart, 'PENALTY');
+    assert.deepEqual({ x: foul.x, y: foul.y }, { x: PENALTY_SPOT_DISTANCE, y: 300 });
+  });
+
+  it('lets players run alongside each other', () => {
+    const scene = createScene();
+    scene.place('r1', 500, 450, 5, 0);
+    scene.place('b1', 500, 470, 5, 0);
+    assert.deepEqual(fouls(scene.step()), []);
+  });
+});
+
+describe('goalkeeper handling', () => {
+  const keeperScene = (keeperX: number, ballX: number) => {
+    const scene = createScene();
+    scene.place('b0', keeperX, 300);
+    scene.setBall({ x: ballX, y: 300 });
+    return scene;
+  };
+
+  it('books a keeper who catches the ball outside the area', () => {
+    const state = keeperScene(PENALTY_AREA_DEPTH - 4, PENALTY_AREA_DEPTH + 10).step();
+    const [foul] = fouls(state);
+    assert.equal(foul?.foul, 'HANDLING');
+    assert.equal(foul.restart, 'FREE KICK');
+    assert.equal(foul.team, 'red');
+    assert.deepEqual(cardsShown(state), ['YELLOW']);
+    assert.equal(state.cards[0].playerId, 'b0');
+  });
+
+  it('lets a keeper outside the area play the ball with their feet', () => {
+    const state = keeperScene(PENALTY_AREA_DEPTH + 40, PENALTY_AREA_DEPTH + 54).step();
+    assert.deepEqual(fouls(state), []);
+    assert.equal(state.lastTouch?.playerId, 'b0');
+    assert.equal(state.keeperHold, null);
+  });
+
+  it('lets a keeper catch the ball inside the area', () => {
+    const state = keeperScene(60, 74).step();
+    assert.deepEqual(fouls(state), []);
+    assert.equal(state.keeperHold?.playerId, 'b0');
+    assert.equal(state.matchState, STATE.PLAYING);
+  });
+
+  it('logs a red card for a second yellow', () => {
+    const scene = keeperScene(PENALTY_AREA_DEPTH - 4, PENALTY_AREA_DEPTH + 10);
+    scene.state.cards.push({ tick: 0, clock: '0:00', playerId: 'b0', team: 'blue', card: 'YELLOW', foul: 'HANDLING' });
+    const state = scene.step();
+    assert.deepEqual(cardsShown(state), ['YELLOW', 'RED']);
+    assert.deepEqual(state.cards.map(c => c.card), ['YELLOW', 'YELLOW', 'RED']);
+  });
+});
@@ -0,0 +1,38 @@
+// Test Helpers
+// Seeded engines with play set up by hand, so a single step can be checked
+
+import { MatchEngine, MatchEngineOptions } from '../utils/matchEngine';
+import { TICK_DT } from '../utils/fixedTimestep';
+import { Ball, MatchState, Player } from '../types/match';
+
+export interface Scene {
+  engine: MatchEngine;
+  state: MatchState;
+  player: (id: string) => Player;
+  place: (id: string, x: number, y: number, vx?: number, vy?: number) => Player;
+  setBall: (ball: Partial<Ball>) => void;
+  step: () => MatchState;
+}
+
+/**
+ * Engine at kickoff with everyone parked along the top touchline on the right, well away
+ * from the play a test sets up, and a still ball nobody has touched
+ */
+export function createScene(options: MatchEngineOptions = {}): Scene {
+  const engine = new MatchEngine({ seed: 1, ...options });
+  const state = engine.getState();
+  const player = (id: string) => [...state.red, ...state.blue].find(p => p.id === id)!;
+  const place = (id: string, x: number, y: number, vx = 0, vy = 0) => Object.assign(player(id), { x, y, vx, vy });
+
+  [...state.red, ...state.blue].forEach((p, i) => place(p.id, 560 + i * 30, 30));
+  state.ball = { x: 500, y: 450, z: 0, vx: 0, vy: 0, vz: 0, spin: 0 };
+
+  return {
+    engine,
+    state,
+    player,
+    place,
+    setBall: ball => { state.ball = { ...state.ball, ...ball }; },
+    step: () => engine.step(TICK_DT)
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createScene } from './helpers';
+import { TICK_RATE } from '../utils/fixedTimestep';
+import { MatchEvent } from '../types/match';
+
+type SaveEvent = Extract<MatchEvent, { type: 'SAVE' }>;
+
+/**
+ * Red's r1 shoots from (x, y) at (vx, vy) on blue's keeper b0, who stands on the left-hand
+ * goal line; plays on until the keeper touches the ball or a second has gone
+ */
+const shootAtKeeper = (x: number, y: number, vx: number, vy: number) => {
+  const scene = createScene();
+  const { state } = scene;
+  scene.place('b0', 30, 300);
+  scene.setBall({ x, y, vx, vy });
+  state.lastTouch = { playerId: 'r1', team: 'red', tick: 0 };
+  state.shots.push({
+    tick: 0, clock: '0:00', playerId: 'r1', team: 'red', restart: null, x, y,
+    target: { x: 0, y: 300 }, distance: x, pressure: 0, error: 0, outcome: null
+  });
+
+  let dived = false;
+  const events: MatchEvent[] = [];
+  for (let i = 0; i < TICK_RATE && state.lastTouch?.playerId !== 'b0'; i++) {
+    scene.step();
+    events.push(...state.events);
+    dived ||= state.dives.has('b0');
+  }
+  return { state, dived, save: events.find((e): e is SaveEvent => e.type === 'SAVE'), goal: events.some(e => e.type === 'GOAL') };
+};
+
+describe('goalkeeper saves', () => {
+  it('catches a gentle shot straight at them and holds it', () => {
+    const { state, save, goal } = shootAtKeeper(200, 300, -7, 0);
+    assert.equal(goal, false);
+    assert.deepEqual(save, { type: 'SAVE', playerId: 'b0', team: 'blue', caught: true });
+    assert.equal(state.keeperHold?.playerId, 'b0');
+    assert.equal(state.shots[0].outcome, 'SAVED');
+  });
+
+  it('parries a hard shot away from goal towards the nearer touchline', () => {
+    const { state, save, goal } = shootAtKeeper(120, 285, -24, 0);
+    assert.equal(goal, false);
+    assert.equal(save?.caught, false);
+    assert.equal(state.keeperHold, null);
+    assert.ok(state.ball.vx > 0, 'the ball should be pushed out of the goal mouth');
+    assert.ok(state.ball.vy < 0, 'the ball should go towards the top touchline');
+  });
+
+  it('dives to reach a shot wide of them', () => {
+    const { dived, save, goal } = shootAtKeeper(130, 300, -22, 6);
+    assert.equal(dived, true);
+    assert.equal(goal, false);
+    assert.equal(save?.playerId, 'b0');
+  });
+});
+
+describe('goalkeeper distribution', () => {
+  const holding = () => {
+    const scene = createScene();
+    scene.place('b0', 60, 300);
+    scene.place('b1', 220, 260);
+    scene.setBall({ x: 74, y: 300 });
+    scene.state.keeperHold = { playerId: 'b0', team: 'blue', timer: 2 };
+    return scene;
+  };
+
+  it('keeps the ball in hand until the hold runs out', () => {
+    const scene = holding();
+    assert.equal(scene.step().keeperHold?.playerId, 'b0');
+    assert.equal(scene.state.ball.vx, 0);
+  });
+
+  it('throws the ball to a free teammate', () => {
+    const scene = holding();
+    const { state } = scene;
+    const events: MatchEvent[] = [];
+    for (let i = 0; i < 5 && state.keeperHold; i++) events.push(...scene.step().events);
+    assert.equal(state.keeperHold, null);
+    assert.deepEqual(events.find(e => e.type === 'PASS'), { type: 'PASS', playerId: 'b0', targetId: 'b1', team: 'blue' });
+    assert.equal(state.lastTouch?.playerId, 'b0');
+    assert.ok(state.ball.vx > 0, 'the throw should go upfield');
+  });
+});
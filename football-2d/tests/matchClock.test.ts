@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { MatchEngine, STATE } from '../utils/matchEngine';
+import { DEFAULT_MATCH_CLOCK, createPeriodClock, formatMatchClock, getNextPeriod } from '../utils/matchClock';
+import { TICK_DT, TICK_RATE } from '../utils/fixedTimestep';
+import { MatchPeriod } from '../types/match';
+
+describe('getNextPeriod', () => {
+  const level = { red: 1, blue: 1 };
+
+  it('goes to full time after the second half without extra time', () => {
+    assert.equal(getNextPeriod('SECOND_HALF', DEFAULT_MATCH_CLOCK, level), 'FULL_TIME');
+  });
+
+  it('plays extra time only when it is enabled and the score is level', () => {
+    const config = { ...DEFAULT_MATCH_CLOCK, extraTime: true };
+    assert.equal(getNextPeriod('SECOND_HALF', config, level), 'EXTRA_TIME_BREAK');
+    assert.equal(getNextPeriod('SECOND_HALF', config, { red: 2, blue: 1 }), 'FULL_TIME');
+    assert.equal(getNextPeriod('EXTRA_TIME_SECOND', config, level), 'FULL_TIME');
+  });
+});
+
+describe('formatMatchClock', () => {
+  it('shows added time past the end of the half', () => {
+    const clock = { ...createPeriodClock('SECOND_HALF', DEFAULT_MATCH_CLOCK), periodTick: 3 * 60 * TICK_RATE + 3 * TICK_RATE };
+    assert.equal(formatMatchClock(clock), '6:00 +0:03');
+  });
+});
+
+describe('MatchEngine clock', () => {
+  it('plays both halves, changes ends at half time and finishes', () => {
+    const engine = new MatchEngine({ seed: 5, clock: { halfMinutes: 0.5, breakSeconds: 1 } });
+    const periods: MatchPeriod[] = [];
+    for (let i = 0; i < 10 * 60 * TICK_RATE && engine.getState().matchState !== STATE.FINISHED; i++) {
+      const state = engine.step(TICK_DT);
+      state.events.forEach(e => { if (e.type === 'PERIOD') periods.push(e.period); });
+    }
+
+    const state = engine.getState();
+    assert.equal(state.matchState, STATE.FINISHED);
+    assert.deepEqual(periods, ['HALF_TIME', 'SECOND_HALF', 'FULL_TIME']);
+    assert.equal(state.sidesSwitched, true, 'teams should have changed ends for the second half');
+    assert.ok(state.clock.clockStart + state.clock.periodTick >= 60 * TICK_RATE);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createScene } from './helpers';
+import { DEFAULT_MATCH_RULES, getOffsidePlayerIds } from '../utils/matchEngine';
+import { MatchEvent } from '../types/match';
+
+type OffsideEvent = Extract<MatchEvent, { type: 'OFFSIDE' }>;
+
+/**
+ * Red, attacking the left-hand goal, passes from r1 with the ball at x = 400. Blue's
+ * second-last defender b1 stands at x = 200, so r2 is beyond that line and r3 level with it.
+ */
+const attackingScene = (sidesSwitched = false) => {
+  const scene = createScene();
+  const mirror = (x: number) => sidesSwitched ? 1000 - x : x;
+  scene.state.sidesSwitched = sidesSwitched;
+  scene.place('b0', mirror(40), 300);
+  scene.place('b1', mirror(200), 250);
+  scene.place('r1', mirror(420), 300);
+  scene.place('r2', mirror(150), 350);
+  scene.place('r3', mirror(200), 400);
+  scene.setBall({ x: mirror(400), y: 300 });
+  return scene;
+};
+
+describe('getOffsidePlayerIds', () => {
+  it('flags attackers beyond the second-last defender and the ball', () => {
+    const { state } = attackingScene();
+    assert.deepEqual(getOffsidePlayerIds(state, DEFAULT_MATCH_RULES, 'red', 'r1'), ['r2']);
+  });
+
+  it('follows the teams when they change ends', () => {
+    const { state } = attackingScene(true);
+    assert.deepEqual(getOffsidePlayerIds(state, DEFAULT_MATCH_RULES, 'red', 'r1'), ['r2']);
+  });
+
+  it('never flags the passer or anyone in their own half', () => {
+    const { state, place } = attackingScene();
+    place('r1', 150, 300);
+    place('r2', 520, 350);
+    assert.deepEqual(getOffsidePlayerIds(state, DEFAULT_MATCH_RULES, 'red', 'r1'), []);
+  });
+
+  it('flags nobody when offside is switched off', () => {
+    const { state } = attackingScene();
+    assert.deepEqual(getOffsidePlayerIds(state, { ...DEFAULT_MATCH_RULES, offside: false }, 'red', 'r1'), []);
+  });
+});
+
+describe('MatchEngine offside', () => {
+  const receive = (receiverId: string) => {
+    const scene = attackingScene();
+    const { state, player, setBall } = scene;
+    state.offsideCheck = { team: 'red', passerId: 'r1', tick: 0, playerIds: ['r2'] };
+    state.lastTouch = { playerId: 'r1', team: 'red', tick: 0 };
+    const receiver = player(receiverId);
+    setBall({ x: receiver.x + 12, y: receiver.y });
+    const after = scene.step();
+    return { state: after, offside: after.events.find((e): e is OffsideEvent => e.type === 'OFFSIDE') };
+  };
+
+  it('gives the defenders a free kick where an offside attacker plays the ball', () => {
+    const { offside } = receive('r2');
+    assert.equal(offside?.playerId, 'r2');
+    assert.equal(offside.team, 'blue');
+    assert.ok(Math.hypot(offside.x - 150, offside.y - 350) < 20);
+  });
+
+  it('lets an onside attacker play on', () => {
+    const { state, offside } = receive('r3');
+    assert.equal(offside, undefined);
+    assert.equal(state.lastTouch?.playerId, 'r3');
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createScene } from './helpers';
+import { getTopSpeed } from '../utils/matchEngine';
+import { TeamController } from '../types/controller';
+
+// Field players stand still unless placed moving, and every touch is a gentle dribble towards +x
+const DRIBBLER: TeamController = {
+  id: 'DRIBBLER',
+  label: 'Dribbler',
+  description: 'Knocks the ball on to the right',
+  observe: () => ({}),
+  kick: () => ({ type: 'DRIBBLE', angle: 0, power: 2, lofted: false })
+};
+
+const dribbleScene = (seed = 1) => {
+  const scene = createScene({ seed, controllers: { red: DRIBBLER, blue: DRIBBLER } });
+  scene.state.possession = { playerId: 'r1', team: 'red', tick: 0 };
+  scene.state.lastTouch = { playerId: 'r1', team: 'red', tick: 0 };
+  return scene;
+};
+
+describe('close control', () => {
+  it('keeps the ball at the carrier\'s feet within reach', () => {
+    const scene = dribbleScene();
+    scene.place('r1', 500, 300);
+    scene.setBall({ x: 530, y: 300 });
+    assert.equal(scene.step().possession?.playerId, 'r1');
+  });
+
+  it('is lost once the ball runs too far away or gets into the air', () => {
+    const away = dribbleScene();
+    away.place('r1', 500, 300);
+    away.setBall({ x: 550, y: 300 });
+    assert.equal(away.step().possession, null);
+
+    const lifted = dribbleScene();
+    lifted.place('r1', 500, 300);
+    lifted.setBall({ x: 530, y: 300, z: 20 });
+    assert.equal(lifted.step().possession, null);
+  });
+
+  it('touches the ball less often the faster the carrier runs', () => {
+    const cooldownAfterTouch = (speed: number) => {
+      const scene = dribbleScene();
+      scene.place('r1', 500, 300, speed, 0);
+      scene.setBall({ x: 515, y: 300, vx: speed });
+      const state = scene.step();
+      assert.equal(state.lastTouch?.tick, state.tick, 'the carrier should have touched the ball');
+      return state.kickCooldowns.get('r1')!;
+    };
+    const walking = cooldownAfterTouch(0);
+    const sprinting = cooldownAfterTouch(getTopSpeed(dribbleScene().player('r1').attributes));
+    assert.ok(sprinting > walking + 5, `${sprinting} ticks between touches at a sprint, ${walking} standing`);
+  });
+});
+
+describe('tackles', () => {
+  /**
+   * Blue's b1 goes in on carrier r1 from (x, y) in one match per seed; the ball sits just to
+   * r1's right, so a tackler on the left has r1 between them and the ball
+   */
+  const tackleOnce = (seed: number, x: number, y: number) => {
+    const scene = dribbleScene(seed);
+    scene.place('r1', 500, 300);
+    scene.place('b1', x, y);
+    scene.setBall({ x: 506, y: 300 });
+    const state = scene.step();
+    const tackle = state.events.find(e => e.type === 'TACKLE');
+    assert.ok(tackle?.type === 'TACKLE' && tackle.playerId === 'b1' && tackle.victimId === 'r1', `no tackle with seed ${seed}`);
+    return { state, won: tackle.won };
+  };
+  const seeds = Array.from({ length: 60 }, (_, i) => i + 1);
+
+  it('knocks the ball off the carrier when won', () => {
+    const won = seeds.map(seed => tackleOnce(seed, 520, 306)).filter(t => t.won);
+    assert.ok(won.length > 0);
+    for (const { state } of won) {
+      assert.equal(state.possession, null);
+      assert.equal(state.lastTouch?.playerId, 'b1');
+      assert.ok(state.kickCooldowns.get('r1')! > 0, 'the dispossessed carrier needs a moment to recover');
+    }
+  });
+
+  it('is won less often when the carrier shields the ball', () => {
+    const wins = (x: number, y: number) => seeds.filter(seed => tackleOnce(seed, x, y).won).length;
+    const open = wins(520, 306);
+    const shielded = wins(492, 306);
+    assert.ok(shielded < open * 0.6, `${shielded} shielded against ${open} open tackles won`);
+  });
+
+  it('is not attempted when the carrier has gone, and the ball is played instead', () => {
+    const scene = dribbleScene();
+    scene.state.possession = { playerId: 'r9', team: 'red', tick: 0 };
+    scene.place('b1', 520, 306);
+    scene.setBall({ x: 506, y: 300 });
+    const state = scene.step();
+    assert.equal(state.events.some(e => e.type === 'TACKLE'), false);
+    assert.equal(state.lastTouch?.playerId, 'b1');
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { MatchEngine } from '../utils/matchEngine';
+import { ReplayRecorder, validateReplay } from '../utils/replay';
+import { TICK_DT } from '../utils/fixedTimestep';
+
+const recordMatch = (seed: number, ticks: number) => {
+  const engine = new MatchEngine({ seed, clock: { halfMinutes: 1, extraTime: false } });
+  const recorder = new ReplayRecorder(engine, engine.getState());
+  for (let i = 0; i < ticks; i++) recorder.recordTick(engine.step(TICK_DT));
+  return recorder.getReplay();
+};
+
+describe('ReplayRecorder', () => {
+  const replay = recordMatch(2, 3000);
+  const keyframeTicks = replay.keyframes.map(k => k.tick);
+
+  it('writes a valid replay with keyframes in tick order', () => {
+    assert.deepEqual(validateReplay(replay), { valid: true, errors: [] });
+    assert.ok(keyframeTicks.every((t, i) => i === 0 || t > keyframeTicks[i - 1]));
+  });
+
+  it('keyframes every event tick and the tick before it', () => {
+    assert.ok(replay.events.length > 0);
+    for (const { tick } of replay.events) {
+      assert.ok(keyframeTicks.includes(tick), `no keyframe on event tick ${tick}`);
+      assert.ok(keyframeTicks.includes(tick - 1), `no keyframe before event tick ${tick}`);
+    }
+  });
+
+  it('records the same match for the same seed', () => {
+    assert.deepEqual(recordMatch(2, 600).keyframes, recordMatch(2, 600).keyframes);
+  });
+});
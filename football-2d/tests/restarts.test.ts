@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createScene } from './helpers';
+import { FIELD_HEIGHT, GOAL_TOP } from '../utils/matchEngine';
+import { MatchEvent, TeamSide } from '../types/match';
+
+type OutEvent = Extract<MatchEvent, { type: 'OUT' }>;
+
+/**
+ * Roll the ball out of play from (x, y) at (vx, vy) and return the restart given
+ */
+const playOut = (x: number, y: number, vx: number, vy: number, lastTouch: TeamSide | null, sidesSwitched = false) => {
+  const scene = createScene();
+  scene.state.sidesSwitched = sidesSwitched;
+  scene.state.lastTouch = lastTouch && { playerId: `${lastTouch[0]}1`, team: lastTouch, tick: 0 };
+  scene.setBall({ x, y, vx, vy });
+  const state = scene.step();
+  return { state, out: state.events.find((e): e is OutEvent => e.type === 'OUT') };
+};
+
+describe('throw-ins', () => {
+  it('go to the side that did not touch the ball last', () => {
+    assert.equal(playOut(300, FIELD_HEIGHT - 5, 0, 10, 'red').out?.team, 'blue');
+    assert.equal(playOut(300, FIELD_HEIGHT - 5, 0, 10, 'blue').out?.team, 'red');
+  });
+
+  it('go to the team defending that half when nobody touched the ball', () => {
+    // Blue defends the left-hand goal until the teams change ends
+    assert.equal(playOut(300, 5, 0, -10, null).out?.team, 'blue');
+    assert.equal(playOut(700, 5, 0, -10, null).out?.team, 'red');
+    assert.equal(playOut(300, 5, 0, -10, null, true).out?.team, 'red');
+  });
+
+  it('are taken on the touchline where the ball went out', () => {
+    const { out, state } = playOut(300, FIELD_HEIGHT - 5, 0, 10, 'red');
+    assert.equal(out?.restart, 'THROW IN');
+    assert.deepEqual({ x: out?.x, y: out?.y }, { x: 300, y: FIELD_HEIGHT - 20 });
+    assert.equal(state.setPiece?.takerId, out?.takerId);
+  });
+});
+
+describe('over the goal line', () => {
+  it('is a corner when the defenders touched it last', () => {
+    const { out } = playOut(5, 100, -10, 0, 'blue');
+    assert.equal(out?.restart, 'CORNER');
+    assert.equal(out?.team, 'red');
+    assert.deepEqual({ x: out?.x, y: out?.y }, { x: 20, y: 20 });
+  });
+
+  it('is a goal kick taken by the keeper when the attackers touched it last', () => {
+    const { out, state } = playOut(5, 100, -10, 0, 'red');
+    assert.equal(out?.restart, 'GOAL KICK');
+    assert.equal(out?.team, 'blue');
+    assert.equal(state.blue.find(p => p.id === out?.takerId)?.role, 'GK');
+  });
+
+  it('is a goal between the posts under the crossbar', () => {
+    const { state, out } = playOut(5, FIELD_HEIGHT / 2, -10, 0, 'red');
+    assert.equal(out, undefined);
+    assert.deepEqual(state.events.find(e => e.type === 'GOAL'), { type: 'GOAL', team: 'red', score: { red: 1, blue: 0 } });
+  });
+
+  it('is no goal when the ball crosses outside the post and curls into the goal mouth', () => {
+    const { state, out } = playOut(6, GOAL_TOP - 8, -12, 12, 'red');
+    assert.equal(state.score.red, 0);
+    assert.equal(out?.restart, 'GOAL KICK');
+  });
+
+  it('is no goal over the crossbar', () => {
+    const scene = createScene();
+    scene.state.lastTouch = { playerId: 'r1', team: 'red', tick: 0 };
+    scene.setBall({ x: 5, y: GOAL_TOP + 20, z: 60, vx: -10 });
+    const state = scene.step();
+    assert.equal(state.score.red, 0);
+    assert.equal(state.events.find((e): e is OutEvent => e.type === 'OUT')?.restart, 'GOAL KICK');
+  });
+});
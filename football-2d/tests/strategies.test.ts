@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { SAMPLE_STRATEGY, validateStrategies, validateStrategy } from '../types/strategy';
+import { BUILT_IN_STRATEGIES, createStrategyRegistry, findStrategy, getLowEffortStrategies, getStrategyUsage } from '../utils/strategies';
+import { MatchEngine } from '../utils/matchEngine';
+import { TICK_DT } from '../utils/fixedTimestep';
+
+// A strategy as it comes out of JSON.parse, so tests can break it
+const sample = () => JSON.parse(JSON.stringify(SAMPLE_STRATEGY));
+
+describe('validateStrategy', () => {
+  it('accepts the built-in strategies and the sample', () => {
+    for (const s of [...BUILT_IN_STRATEGIES, SAMPLE_STRATEGY]) assert.deepEqual(validateStrategy(s), { valid: true, errors: [] }, s.id);
+  });
+
+  it('rejects anything that is not an object', () => {
+    assert.deepEqual(validateStrategy(null), { valid: false, errors: ['Strategy must be an object'] });
+    assert.equal(validateStrategy('HIGH_LINE').valid, false);
+  });
+
+  it('names each bad field', () => {
+    const s = { ...sample(), id: 'high line', category: 'reckless', positioning: { ...sample().positioning, anchor: 'GOAL', effort: 2 } };
+    const { valid, errors } = validateStrategy(s);
+    assert.equal(valid, false);
+    assert.equal(errors.length, 4);
+    assert.match(errors[0], /invalid "id"/);
+    assert.match(errors[1], /category must be one of/);
+    assert.match(errors[2], /anchor must be one of/);
+    assert.match(errors[3], /invalid effort/);
+  });
+
+  it('checks only the fields an inPossession override sets', () => {
+    assert.equal(validateStrategy({ ...sample(), inPossession: { width: 'TOUCHLINE' } }).valid, true);
+    assert.equal(validateStrategy({ ...sample(), inPossession: { width: -5 } }).valid, false);
+    assert.equal(validateStrategy({ ...sample(), onBall: { shootRange: -1 } }).valid, false);
+  });
+});
+
+describe('validateStrategies', () => {
+  it('expects an array', () => {
+    assert.deepEqual(validateStrategies(sample()), { valid: false, errors: ['Expected an array of strategies'] });
+  });
+
+  it('collects the errors of every strategy and duplicate ids', () => {
+    const { valid, errors } = validateStrategies([sample(), { ...sample(), label: '' }]);
+    assert.equal(valid, false);
+    assert.deepEqual(errors, ['"HIGH_LINE": missing or invalid "label" field', 'Duplicate strategy id "HIGH_LINE"']);
+  });
+});
+
+describe('strategy registry', () => {
+  it('adds user strategies and lets them replace built-ins with the same id', () => {
+    const own = { ...BUILT_IN_STRATEGIES[0], label: 'My Take' };
+    const registry = createStrategyRegistry([SAMPLE_STRATEGY, own]);
+    assert.equal(Object.keys(registry).length, BUILT_IN_STRATEGIES.length + 1);
+    assert.equal(registry[own.id].label, 'My Take');
+    assert.equal(findStrategy(registry, 'Switch to 📏 High Line - squeeze them'), 'HIGH_LINE');
+  });
+
+  it('lists user strategies under their category in the AI guidance', () => {
+    const usage = getStrategyUsage(createStrategyRegistry([SAMPLE_STRATEGY]));
+    assert.match(usage.winning, /📏 High Line/);
+    assert.doesNotMatch(usage.losing, /High Line/);
+  });
+
+  it('offers tired players only strategies that neither press nor sprint', () => {
+    const stroll = { ...SAMPLE_STRATEGY, id: 'STROLL', label: 'Stroll', positioning: { ...SAMPLE_STRATEGY.positioning, effort: 0.3, pressDistance: 0 } };
+    const restful = getLowEffortStrategies(createStrategyRegistry([SAMPLE_STRATEGY, stroll]));
+    assert.ok(restful.includes('🏰 Hold Position') && restful.includes('📏 Stroll'));
+    assert.ok(!restful.includes('📏 High Line'));
+    assert.ok(!restful.includes('💨 Counter Attack'), 'sprints forward once the team has the ball');
+  });
+
+  it('lets the engine play a user strategy and ignores unknown ids', () => {
+    const engine = new MatchEngine({ seed: 4, strategies: [SAMPLE_STRATEGY] });
+    engine.step(TICK_DT, { strategies: { r1: 'HIGH_LINE', r2: 'NOT_A_STRATEGY' } });
+    const { strategies } = engine.getState();
+    assert.equal(strategies.get('r1'), 'HIGH_LINE');
+    assert.notEqual(strategies.get('r2'), 'NOT_A_STRATEGY');
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { FIELD_WIDTH, MatchEngine } from '../utils/matchEngine';
+import { FORMATIONS, TEAM_SIZES, getFormation, getFormationsForSize } from '../utils/formations';
+import { TICK_DT } from '../utils/fixedTimestep';
+
+describe('formations', () => {
+  it('offer at least one line-up for every team size', () => {
+    for (const size of TEAM_SIZES) assert.ok(getFormationsForSize(size).length > 0, `no formation for ${size}-a-side`);
+  });
+
+  it('fill every slot with exactly one goalkeeper', () => {
+    for (const f of FORMATIONS) {
+      assert.equal(f.slots.length, f.teamSize, f.name);
+      assert.equal(f.slots.filter(s => s.position === 'GK').length, 1, f.name);
+    }
+  });
+
+  it('fall back to the first line-up for the size when the id belongs to another size', () => {
+    assert.equal(getFormation('1-1-1', 7), getFormationsForSize(7)[0]);
+    assert.equal(getFormation(getFormationsForSize(11)[1].id, 11), getFormationsForSize(11)[1]);
+  });
+});
+
+describe('MatchEngine team sizes', () => {
+  for (const teamSize of TEAM_SIZES) {
+    it(`kicks off ${teamSize}-a-side with each team in its own half`, () => {
+      const state = new MatchEngine({ seed: 3, teamSize }).getState();
+      for (const team of [state.red, state.blue]) {
+        assert.equal(team.length, teamSize);
+        assert.equal(team.filter(p => p.role === 'GK').length, 1);
+      }
+      // Red defends the right-hand goal in the first half
+      assert.ok(state.red.every(p => p.x >= FIELD_WIDTH/2));
+      assert.ok(state.blue.every(p => p.x <= FIELD_WIDTH/2));
+    });
+  }
+
+  it('keeps all 22 players and the ball in a sane state through 11-a-side play', () => {
+    const engine = new MatchEngine({ seed: 3, teamSize: 11 });
+    for (let i = 0; i < 600; i++) engine.step(TICK_DT);
+    const { red, blue, ball } = engine.getState();
+    assert.equal(new Set([...red, ...blue].map(p => p.id)).size, 22);
+    assert.ok([...red, ...blue, ball].every(o => Number.isFinite(o.x) && Number.isFinite(o.y)));
+  });
+});
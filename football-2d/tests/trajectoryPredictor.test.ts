@@ -0,0 +1,126 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { createScene } from './helpers';
+import { CROSSBAR_HEIGHT, FIELD_HEIGHT, GOAL_TOP, MatchEngineOptions } from '../utils/matchEngine';
+import { getOutOfPlay, predictBallTrajectory } from '../utils/trajectoryPredictor';
+import { DEFAULT_PHYSICS } from '../utils/physics';
+import { MATCH_CONDITIONS } from '../utils/matchConditions';
+import { TICK_RATE } from '../utils/fixedTimestep';
+import { TeamSide } from '../types/match';
+
+const TICKS = 20;
+
+/**
+ * Predict a chipped ball, which lands part way, tick by tick and play the same ball out
+ * in the engine with every player parked far away so nobody touches it; returns both paths
+ */
+const predictAndPlay = (options: MatchEngineOptions) => {
+  const scene = createScene(options);
+  const { engine } = scene;
+  scene.setBall({ x: 250, y: 400, z: 0, vx: -6, vy: 2, vz: 2.5, spin: 0.3 });
+  const b = scene.state.ball;
+  const predicted = predictBallTrajectory(b.x, b.y, b.vx, b.vy, TICKS / TICK_RATE, 1 / TICK_RATE, b.spin, {
+    z: b.z, vz: b.vz, physics: engine.physics, conditions: engine.conditions, stopSpeed: 0
+  });
+  const played = Array.from({ length: TICKS }, () => {
+    const { ball, lastTouch } = scene.step();
+    assert.equal(lastTouch, null, 'a player reached the ball');
+    return { x: ball.x, y: ball.y };
+  });
+  return { predicted: predicted.predictedPath.map(({ x, y }) => ({ x, y })), played };
+};
+
+describe('predictBallTrajectory', () => {
+  it('matches the engine exactly for an untouched ball in every condition', () => {
+    for (const conditions of MATCH_CONDITIONS) {
+      const { predicted, played } = predictAndPlay({ conditions });
+      assert.deepEqual(predicted, played, conditions.id);
+    }
+  });
+
+  it('matches an engine running on a custom physics profile', () => {
+    const physics = { ...DEFAULT_PHYSICS, name: 'Sticky', groundFriction: 0.9, gravity: 0.5, magnusCoefficient: 0.03 };
+    const { predicted, played } = predictAndPlay({ physics });
+    assert.deepEqual(predicted, played);
+  });
+
+  it('reports where a rolling ball comes to rest', () => {
+    const trajectory = predictBallTrajectory(500, 300, 5, 0, 5);
+    assert.equal(trajectory.willExitField, false);
+    assert.ok(trajectory.landingPosition!.x > 500 && trajectory.timeToStop < 5);
+    assert.equal(trajectory.landingPosition!.y, 300);
+  });
+});
+
+describe('getOutOfPlay', () => {
+  const from = { x: 10, y: 150, z: 0 };
+  // Ground ball moving from `from` to (x, y)
+  const to = (x: number, y: number) => ({ x, y, z: 0 });
+
+  it('calls a goal between the posts under the crossbar', () => {
+    assert.deepEqual(getOutOfPlay({ x: 10, y: 300, z: 0 }, to(-10, 300), 'red', false), { type: 'GOAL', team: 'red', x: 0, y: 300 });
+    const high = CROSSBAR_HEIGHT + 1;
+    assert.equal(getOutOfPlay({ x: 10, y: 300, z: high }, { x: -10, y: 300, z: high }, 'red', false)?.type, 'GOAL KICK');
+  });
+
+  it('judges a diagonal ball by where it crosses the line, not where it ends up', () => {
+    // Crosses 10px outside the post, ends inside the goal mouth
+    assert.equal(getOutOfPlay({ x: 10, y: GOAL_TOP - 25, z: 0 }, to(-10, GOAL_TOP + 5), 'red', false)?.type, 'GOAL KICK');
+    // Crosses 10px inside the post, ends outside the goal mouth
+    assert.equal(getOutOfPlay({ x: 10, y: GOAL_TOP + 25, z: 0 }, to(-10, GOAL_TOP - 5), 'red', false)?.type, 'GOAL');
+  });
+
+  it('judges a dropping ball by its height on the line', () => {
+    const dipping = getOutOfPlay({ x: 10, y: 300, z: CROSSBAR_HEIGHT + 6 }, { x: -10, y: 300, z: CROSSBAR_HEIGHT - 10 }, 'red', false);
+    assert.equal(dipping?.type, 'GOAL');
+  });
+
+  it('gives a corner or a goal kick by who touched the ball last', () => {
+    assert.deepEqual(getOutOfPlay(from, to(-10, 170), 'blue', false), { type: 'CORNER', team: 'red', x: 0, y: 160 });
+    assert.equal(getOutOfPlay(from, to(-10, 170), 'red', false)?.type, 'GOAL KICK');
+    assert.equal(getOutOfPlay(from, to(-10, 170), 'red', true)?.type, 'CORNER');
+  });
+
+  it('gives a throw-in where the ball crosses the touchline', () => {
+    assert.deepEqual(getOutOfPlay({ x: 300, y: 590, z: 0 }, to(320, 610), 'red', false), { type: 'THROW IN', team: 'blue', x: 310, y: FIELD_HEIGHT });
+  });
+
+  it('leaves a ball on the pitch in play', () => {
+    assert.equal(getOutOfPlay(from, to(0, 170), 'red', false), null);
+  });
+});
+
+describe('predicted out of play', () => {
+  /**
+   * Roll the ball out from (x, y) and compare the predicted goal or restart with the engine's
+   */
+  const predictAndPlayOut = (x: number, y: number, vx: number, vy: number, lastTouch: TeamSide) => {
+    const scene = createScene();
+    scene.state.lastTouch = { playerId: `${lastTouch[0]}1`, team: lastTouch, tick: 0 };
+    scene.setBall({ x, y, vx, vy });
+    const { outOfPlay } = predictBallTrajectory(x, y, vx, vy, 1, 0.1, 0, { lastTouch, sidesSwitched: false });
+    for (let tick = 1; tick <= TICK_RATE; tick++) {
+      const event = scene.step().events.find(e => e.type === 'GOAL' || e.type === 'OUT');
+      if (event) {
+        return {
+          predicted: outOfPlay && { type: outOfPlay.type, team: outOfPlay.team, tick: Math.round(outOfPlay.t * TICK_RATE) },
+          played: { type: event.type === 'OUT' ? event.restart : 'GOAL', team: event.team, tick }
+        };
+      }
+    }
+    assert.fail('the ball stayed in play');
+  };
+
+  it('predicts the engine\'s goal, corner, goal kick and throw-in to the tick', () => {
+    for (const [x, y, vx, vy, lastTouch] of [
+      [60, 300, -8, 0, 'red'],
+      [60, 150, -8, 1, 'blue'],
+      [60, 150, -8, 1, 'red'],
+      [300, 540, 1, 8, 'red']
+    ] as const) {
+      const { predicted, played } = predictAndPlayOut(x, y, vx, vy, lastTouch);
+      assert.deepEqual(predicted, played);
+    }
+  });
+});
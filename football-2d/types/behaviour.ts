@@ -0,0 +1,135 @@
+// Behaviour Tree Schema
+// JSON behaviour trees that decide where each field player runs
+
+// Checks made for one field player
+export type BehaviourCondition =
+  | 'CHASER'             // Receiver of our pass in flight or our player on the ball, otherwise the field player nearest a loose ball
+  | 'HAS_BALL'           // The player has the ball under close control
+  | 'UNDER_PRESSURE'     // An opponent within `distance` px of the player (default the pressure radius)
+  | 'BALL_WITHIN'        // Ball within `distance` px of the player
+  | 'IN_PRESS_RANGE'     // Ball within the press distance of the player's strategy
+  | 'TEAM_HAS_BALL'      // Our team played the ball last
+  | 'KEEPER_HOLDING'     // A goalkeeper has the ball in their hands
+  | 'SET_PIECE'          // Dead ball waiting for a restart
+  | 'TEAMMATE_OPEN'      // A field teammate has no opponent within `distance` px
+  | 'BALL_IN_OWN_HALF'
+  | 'WINNING'
+  | 'LOSING'
+  | 'DRAWING';
+
+export const BEHAVIOUR_CONDITIONS: BehaviourCondition[] = [
+  'CHASER', 'HAS_BALL', 'UNDER_PRESSURE', 'BALL_WITHIN', 'IN_PRESS_RANGE', 'TEAM_HAS_BALL', 'KEEPER_HOLDING', 'SET_PIECE',
+  'TEAMMATE_OPEN', 'BALL_IN_OWN_HALF', 'WINNING', 'LOSING', 'DRAWING'
+];
+
+// Where an action sends the player
+export type BehaviourAction =
+  | 'CHASE'              // At the ball, running to meet a pass aimed at the player
+  | 'PRESS'              // Straight at the ball
+  | 'SHIELD'             // Between the ball and the opponent nearest it
+  | 'COVER'              // Between the ball and our goal
+  | 'MARK'               // Goal side of the nearest outfield opponent
+  | 'MAKE_RUN'           // Ahead of the ball in the player's lane
+  | 'HOLD'               // The player's formation spot
+  | 'STRATEGY';          // Wherever the AI-picked strategy puts the player
+
+export const BEHAVIOUR_ACTIONS: BehaviourAction[] = ['CHASE', 'PRESS', 'SHIELD', 'COVER', 'MARK', 'MAKE_RUN', 'HOLD', 'STRATEGY'];
+
+export interface BehaviourSelector {
+  type: 'selector';              // Tries children in order until one succeeds
+  name?: string;
+  children: BehaviourNode[];
+}
+
+export interface BehaviourSequence {
+  type: 'sequence';              // Runs children in order until one fails
+  name?: string;
+  children: BehaviourNode[];
+}
+
+export interface BehaviourConditionNode {
+  type: 'condition';
+  name?: string;
+  condition: BehaviourCondition;
+  distance?: number;             // Px for BALL_WITHIN, UNDER_PRESSURE and TEAMMATE_OPEN
+  not?: boolean;                 // Succeed when the condition does not hold
+}
+
+export interface BehaviourActionNode {
+  type: 'action';                // Always succeeds; the first action reached decides the player's run
+  name?: string;
+  action: BehaviourAction;
+  effort?: number;               // Share of full sprint, 0-1 (each action has its own default)
+}
+
+export type BehaviourNode = BehaviourSelector | BehaviourSequence | BehaviourConditionNode | BehaviourActionNode;
+
+export interface BehaviourTreeDefinition {
+  id: string;                    // UPPER_SNAKE_CASE, used as the team controller id
+  label: string;
+  description: string;
+  root: BehaviourNode;
+}
+
+const checkNode = (node: any, path: string, errors: string[]) => {
+  if (!node || typeof node !== 'object') {
+    errors.push(`${path}: node must be an object`);
+    return;
+  }
+  if (node.name !== undefined && typeof node.name !== 'string') errors.push(`${path}: "name" must be a string`);
+  const at = node.name ? `${path} "${node.name}"` : path;
+
+  switch (node.type) {
+    case 'selector':
+    case 'sequence':
+      if (!Array.isArray(node.children) || node.children.length === 0) {
+        errors.push(`${at}: ${node.type} needs a non-empty "children" array`);
+        return;
+      }
+      node.children.forEach((child: any, i: number) => checkNode(child, `${path}.${i}`, errors));
+      break;
+    case 'condition':
+      if (!BEHAVIOUR_CONDITIONS.includes(node.condition)) {
+        errors.push(`${at}: condition must be one of ${BEHAVIOUR_CONDITIONS.join(', ')}`);
+      }
+      if (node.distance !== undefined && (typeof node.distance !== 'number' || node.distance < 0)) {
+        errors.push(`${at}: invalid distance (must be >= 0)`);
+      }
+      if (node.condition === 'BALL_WITHIN' && node.distance === undefined) {
+        errors.push(`${at}: BALL_WITHIN needs a "distance"`);
+      }
+      if (node.not !== undefined && typeof node.not !== 'boolean') errors.push(`${at}: "not" must be a boolean`);
+      break;
+    case 'action':
+      if (!BEHAVIOUR_ACTIONS.includes(node.action)) {
+        errors.push(`${at}: action must be one of ${BEHAVIOUR_ACTIONS.join(', ')}`);
+      }
+      if (node.effort !== undefined && (typeof node.effort !== 'number' || node.effort < 0 || node.effort > 1)) {
+        errors.push(`${at}: invalid effort (must be 0-1)`);
+      }
+      break;
+    default:
+      errors.push(`${at}: type must be one of selector, sequence, condition, action`);
+  }
+};
+
+// Validation function
+export function validateBehaviourTree(json: any): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!json || typeof json !== 'object') {
+    return { valid: false, errors: ['Behaviour tree must be an object'] };
+  }
+  if (typeof json.id !== 'string' || !/^[A-Z0-9_]+$/.test(json.id)) {
+    errors.push('Missing or invalid "id" (UPPER_SNAKE_CASE)');
+  }
+  for (const key of ['label', 'description']) {
+    if (!json[key] || typeof json[key] !== 'string') errors.push(`Missing or invalid "${key}" field`);
+  }
+  checkNode(json.root, 'root', errors);
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
@@ -0,0 +1,62 @@
+// Match Conditions Schema
+// Weather and pitch state chosen before kickoff; the engine plays the real ball in them
+
+export type PitchSurface = 'DRY' | 'WET';
+
+// Patch of the pitch where the ball rolls differently
+export interface SurfaceZone {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  frictionMultiplier: number;  // Scales the speed a rolling ball loses: above 1 is rough, below 1 slick
+}
+
+export interface MatchConditions {
+  id: string;                    // e.g. "WINDY"
+  label: string;
+  description: string;
+  wind: { x: number; y: number }; // Push on a ball in the air, px/tick^2; rolling balls feel a share of it
+  pitch: PitchSurface;           // A wet pitch lets the ball skid further
+  zones: SurfaceZone[];          // First zone containing the ball applies
+}
+
+// Validation function
+export function validateMatchConditions(json: any): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!json || typeof json !== 'object') {
+    return { valid: false, errors: ['Match conditions must be an object'] };
+  }
+  if (typeof json.id !== 'string' || !/^[A-Z0-9_]+$/.test(json.id)) {
+    errors.push('Missing or invalid "id" (UPPER_SNAKE_CASE)');
+  }
+  for (const key of ['label', 'description']) {
+    if (!json[key] || typeof json[key] !== 'string') errors.push(`Missing or invalid "${key}" field`);
+  }
+  if (!json.wind || !Number.isFinite(json.wind.x) || !Number.isFinite(json.wind.y)) {
+    errors.push('Missing or invalid "wind" (needs numeric x and y)');
+  }
+  if (json.pitch !== 'DRY' && json.pitch !== 'WET') {
+    errors.push('Invalid "pitch" (must be DRY or WET)');
+  }
+  if (!Array.isArray(json.zones)) {
+    errors.push('Missing "zones" array');
+  } else {
+    json.zones.forEach((zone: any, i: number) => {
+      if (!zone || !['x1', 'y1', 'x2', 'y2'].every(key => Number.isFinite(zone[key]))) {
+        errors.push(`zones[${i}]: needs numeric x1, y1, x2 and y2`);
+      } else if (zone.x2 <= zone.x1 || zone.y2 <= zone.y1) {
+        errors.push(`zones[${i}]: x2 and y2 must be greater than x1 and y1`);
+      }
+      if (typeof zone?.frictionMultiplier !== 'number' || zone.frictionMultiplier < 0) {
+        errors.push(`zones[${i}]: invalid frictionMultiplier (must be >= 0)`);
+      }
+    });
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
@@ -0,0 +1,55 @@
+// Team Controller Interface
+// Scripted team AI: each tick a controller observes the match and says what its players do
+
+import { Formation, MatchRules, MatchState, Player, TeamSide } from './match';
+import { StrategyDefinition } from './strategy';
+import { BehaviourNode } from './behaviour';
+import { MatchConditions } from './conditions';
+import { PhysicsProfile } from './physics';
+
+// Where a field player runs this tick
+export interface PlayerIntent {
+  x: number;
+  y: number;
+  effort: number;                // Share of full sprint acceleration, 0-1
+  arrive?: boolean;              // Ease off to stop on the target instead of running through it
+  node?: number[];               // Child indices down the controller's behaviour tree to the deciding action
+}
+
+// What a field player does with the ball when they get a touch
+export interface KickIntent {
+  type: 'SHOT' | 'PASS' | 'DRIBBLE';
+  angle: number;                 // Radians; the engine adds the player's kick error to passes and shots
+  power: number;                 // Before the player's kick power and fatigue are applied
+  lofted: boolean;               // Passes played over the top
+  target?: { x: number; y: number }; // Where a pass meets its receiver, or where a shot is aimed (required for shots)
+  receiverId?: string;           // Teammate sent to meet a pass
+}
+
+// Everything a controller sees of the match from one side
+export interface TeamObservation {
+  state: MatchState;             // Live engine state; read it, never change it
+  side: TeamSide;
+  team: Player[];
+  opponents: Player[];
+  attacksLeft: boolean;          // Attacking the goal at x = 0 this half
+  formation: Formation;          // Slot i belongs to team[i]
+  rules: MatchRules;
+  strategies: Record<string, StrategyDefinition>; // Strategy ids in state.strategies resolve here
+  conditions: MatchConditions;   // Wind and pitch the ball is played in
+  physics: PhysicsProfile;       // How the ball moves; pass both to predictBallTrajectory to predict the real ball
+}
+
+/**
+ * Team AI the engine asks each tick. Goalkeepers, set piece takers and red players
+ * locked to a sector are moved by the engine; every other player follows the
+ * controller's intent, and a player without one stands still.
+ */
+export interface TeamController {
+  id: string;                    // e.g. "DEFAULT"
+  label: string;
+  description: string;
+  behaviour?: BehaviourNode;     // Tree behind the intents, shown in the player's debug view
+  observe(observation: TeamObservation): Record<string, PlayerIntent>; // Intents by player id
+  kick(observation: TeamObservation, player: Player): KickIntent;      // Called when player gets a touch
+}
@@ -1,6 +1,8 @@
 // Custom Algorithm Schema for Sports Science Researchers
 // Allows importing trajectory prediction algorithms via JSON
 
+import { FrictionModel } from './physics';
+
 export interface CustomAlgorithmDefinition {
   name: string;
   version: string;
@@ -12,17 +14,13 @@ export interface CustomAlgorithmDefinition {
     friction: number;           // Base friction coefficient (0-1)
     timeStep: number;           // Simulation time step in seconds
     maxPredictionTime: number;  // Maximum prediction time in seconds
-    bounceEnergyLoss: number;   // Energy loss on wall bounce (0-1)
+    bounceEnergyLoss?: number;  // Unused: the ball goes out of play at the lines rather than bouncing
     stopThreshold: number;      // Speed threshold for stopping
   };
 
   // Optional: Custom friction function
   // If provided, overrides base friction
-  customFriction?: {
-    type: 'linear' | 'quadratic' | 'exponential' | 'piecewise';
-    coefficients: number[];
-    description: string;
-  };
+  customFriction?: FrictionModel;
 
   // Optional: Environmental factors
   environment?: {
@@ -42,8 +40,9 @@ export interface CustomAlgorithmDefinition {
   ballPhysics?: {
     mass: number;              // Ball mass (affects momentum)
     radius: number;            // Ball radius
-    spinDecay?: number;        // Spin decay rate
+    spinDecay?: number;        // Share of spin lost per step (0-1, engine: 0.04)
     magnusEffect?: boolean;    // Enable Magnus effect (curved shots)
+    magnusCoefficient?: number; // Radians the path turns per step per unit of spin (engine: 0.01)
   };
 
   // Metadata for tracking
@@ -125,7 +124,7 @@ export function validateAlgorithm(json: any): { valid: boolean; errors: string[]
     if (typeof p.maxPredictionTime !== 'number' || p.maxPredictionTime <= 0) {
       errors.push('Invalid maxPredictionTime (must be > 0)');
     }
-    if (typeof p.bounceEnergyLoss !== 'number' || p.bounceEnergyLoss < 0 || p.bounceEnergyLoss > 1) {
+    if (p.bounceEnergyLoss !== undefined && (typeof p.bounceEnergyLoss !== 'number' || p.bounceEnergyLoss < 0 || p.bounceEnergyLoss > 1)) {
       errors.push('Invalid bounceEnergyLoss (must be 0-1)');
     }
     if (typeof p.stopThreshold !== 'number' || p.stopThreshold < 0) {
@@ -133,6 +132,17 @@ export function validateAlgorithm(json: any): { valid: boolean; errors: string[]
     }
   }
 
+  // Ball physics validation
+  if (json.ballPhysics) {
+    const bp = json.ballPhysics;
+    if (bp.spinDecay !== undefined && (typeof bp.spinDecay !== 'number' || bp.spinDecay < 0 || bp.spinDecay > 1)) {
+      errors.push('Invalid spinDecay (must be 0-1)');
+    }
+    if (bp.magnusCoefficient !== undefined && (typeof bp.magnusCoefficient !== 'number' || bp.magnusCoefficient < 0)) {
+      errors.push('Invalid magnusCoefficient (must be >= 0)');
+    }
+  }
+
   // Metadata validation
   if (!json.metadata) {
     errors.push('Missing "metadata" object');
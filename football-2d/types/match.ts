@@ -0,0 +1,247 @@
+// Match Simulation Types
+// Shared by the headless match engine and the components that render it
+
+export type TeamSide = 'red' | 'blue';
+
+export type PlayerRole = 'GK' | 'FIELD';
+
+// Line a player holds in their formation
+export type FormationPosition = 'GK' | 'DEF' | 'MID' | 'FWD';
+
+export type TeamSize = 4 | 5 | 7 | 11;
+
+// One player's place in a formation, in the team's own half:
+// depth 0 is the own goal line and 1 the halfway line, width runs 0 (top) to 1 (bottom)
+export interface FormationSlot {
+  position: FormationPosition;
+  depth: number;
+  width: number;
+}
+
+export interface Formation {
+  id: string;                    // e.g. "4-4-2"
+  name: string;
+  teamSize: TeamSize;
+  slots: FormationSlot[];        // Goalkeeper first
+}
+
+export type MatchPhase = 'PLAYING' | 'RESETTING' | 'FINISHED';
+
+export type MatchPeriod =
+  | 'FIRST_HALF'
+  | 'HALF_TIME'
+  | 'SECOND_HALF'
+  | 'EXTRA_TIME_BREAK'
+  | 'EXTRA_TIME_FIRST'
+  | 'EXTRA_TIME_HALF_TIME'
+  | 'EXTRA_TIME_SECOND'
+  | 'FULL_TIME';
+
+// Ratings relative to an average player (1.0); accuracy is 0-1
+export interface PlayerAttributes {
+  speed: number;                 // Top speed
+  acceleration: number;
+  kickPower: number;
+  accuracy: number;              // 1 kicks exactly where aimed
+}
+
+export interface Player {
+  id: string;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  role: PlayerRole;
+  position: FormationPosition;
+  attributes: PlayerAttributes;
+  stamina: number;               // 0-1; low stamina lowers top speed and kick power
+}
+
+export interface Ball {
+  x: number;
+  y: number;
+  z: number;                     // Height above the pitch in px
+  vx: number;
+  vy: number;
+  vz: number;
+  spin: number;                  // Side spin; curls the ball's path (positive turns it clockwise on screen)
+}
+
+export interface LockInfo {
+  targetSector: number;
+  timer: number;
+}
+
+export type RestartType = 'CORNER' | 'GOAL KICK' | 'THROW IN' | 'FREE KICK' | 'INDIRECT FREE KICK' | 'PENALTY';
+
+export type FoulType = 'FROM_BEHIND' | 'CHARGE' | 'HANDLING';
+
+export type CardColor = 'YELLOW' | 'RED';
+
+export interface CardRecord {
+  tick: number;
+  clock: string;                 // Match clock when the card was shown
+  playerId: string;
+  team: TeamSide;
+  card: CardColor;
+  foul: FoulType;
+}
+
+// How a shot ended: SHORT shots never reached the goal line (picked up by a teammate,
+// ran out of pace or play was stopped)
+export type ShotOutcome = 'GOAL' | 'SAVED' | 'BLOCKED' | 'WIDE' | 'OVER' | 'SHORT';
+
+export interface ShotRecord {
+  tick: number;
+  clock: string;                 // Match clock when the shot was struck
+  playerId: string;
+  team: TeamSide;
+  restart: RestartType | null;   // Set piece the shot was taken from, if any
+  x: number;                     // Where the ball was struck
+  y: number;
+  target: { x: number; y: number }; // Point in the goal mouth the shooter aimed at
+  distance: number;              // To the target
+  pressure: number;              // 0 unchallenged - 1 opponent in contact
+  error: number;                 // Radians the shot went off the aimed line
+  outcome: ShotOutcome | null;   // Null while the shot is still travelling
+}
+
+export interface LastTouch {
+  playerId: string;
+  team: TeamSide;
+  tick: number;
+}
+
+// Pass on its way to a teammate, who runs to meet it
+export interface PassInFlight {
+  team: TeamSide;
+  passerId: string;
+  targetId: string;
+  tick: number;
+  x: number;                     // Where the pass was aimed
+  y: number;
+}
+
+// Field player with the ball under close control at their feet
+export interface Possession {
+  playerId: string;
+  team: TeamSide;
+  tick: number;                  // When they took control
+}
+
+// Goalkeeper with the ball in their hands
+export interface KeeperHold {
+  playerId: string;
+  team: TeamSide;
+  timer: number;                 // Ticks until the keeper releases the ball
+}
+
+// Dead-ball restart waiting for its taker; the ball stays on the spot until played
+export interface SetPiece {
+  restart: RestartType;
+  team: TeamSide;                // Team taking the restart
+  takerId: string;
+  x: number;
+  y: number;
+  aim: { x: number; y: number }; // Where the taker plays the ball
+  power: number;
+  loft: number;                  // Upward speed given to the ball (0 along the ground)
+  shot: boolean;                 // Taken as a shot at goal
+  receiverId: string | null;     // Teammate the restart is played to, if aimed at one
+  timer: number;                 // Ticks left before the ball is played live anyway
+}
+
+// Things that happened during a single engine step, consumed by renderers.
+// For OUT, FOUL and OFFSIDE, `team` is the side awarded the restart.
+export type MatchEvent =
+  | { type: 'GOAL'; team: TeamSide; score: { red: number; blue: number } }
+  | { type: 'OUT'; restart: RestartType; team: TeamSide; takerId: string; x: number; y: number }
+  | { type: 'FOUL'; foul: FoulType; playerId: string; victimId: string | null; restart: RestartType; team: TeamSide; x: number; y: number }
+  | { type: 'CARD'; card: CardColor; playerId: string; team: TeamSide }
+  | { type: 'OFFSIDE'; playerId: string; team: TeamSide; x: number; y: number }
+  | { type: 'PASS'; playerId: string; targetId: string; team: TeamSide }
+  | { type: 'SAVE'; playerId: string; team: TeamSide; caught: boolean }
+  | { type: 'TACKLE'; playerId: string; victimId: string; team: TeamSide; won: boolean }
+  | { type: 'KICKOFF' }
+  | { type: 'PERIOD'; period: MatchPeriod }
+  | { type: 'ADDED_TIME'; seconds: number }
+  | { type: 'LOCK'; playerId: string; sectorId: number }
+  | { type: 'LOCK_EXPIRED'; playerId: string };
+
+// External inputs applied at the start of a step
+export interface MatchInputs {
+  sectorAssignments?: number[]; // Sector ids pressed on the tactical pad (red team)
+  strategies?: Record<string, string>; // New strategy id by player id
+}
+
+export interface MatchRules {
+  offside: boolean;              // Disable for futsal-style play
+}
+
+// Attackers who were in an offside position when a teammate last played the ball
+export interface OffsideCheck {
+  team: TeamSide;
+  passerId: string;
+  tick: number;
+  playerIds: string[];
+}
+
+// Minutes are simulated minutes (TICK_RATE * 60 ticks), i.e. real minutes at 1x speed
+export interface MatchClockConfig {
+  halfMinutes: number;
+  extraTime: boolean;            // Play two extra halves when level after the second half
+  extraTimeHalfMinutes: number;
+  breakSeconds: number;          // Length of half-time and extra-time breaks
+}
+
+export interface MatchClock {
+  period: MatchPeriod;
+  periodTick: number;            // Ticks played in the current period
+  periodLength: number;          // Regulation ticks of the current period (0 for breaks)
+  clockStart: number;            // Match clock (ticks) at the start of the period
+  stoppageTicks: number;         // Ticks lost to stoppages in the current period
+  addedTicks: number | null;     // Added time, announced once regulation time is up
+}
+
+// Clock summary handed to players and the AI prompt
+export interface MatchClockInfo {
+  period: MatchPeriod;
+  label: string;                 // e.g. "2nd Half"
+  display: string;               // e.g. "4:12" or "6:00 +0:03"
+  secondsRemainingInPeriod: number;
+  secondsRemainingInMatch: number; // Regulation time left, excluding added time
+}
+
+export interface ResetTarget {
+  ball: { x: number; y: number };
+  red: Player[];
+  blue: Player[];
+  resetPlayers: boolean;
+}
+
+export interface MatchState {
+  tick: number;
+  ball: Ball;
+  red: Player[];
+  blue: Player[];
+  score: { red: number; blue: number };
+  clock: MatchClock;
+  sidesSwitched: boolean;        // Red attacks the left goal unless switched
+  matchState: MatchPhase;
+  resetTarget: ResetTarget | null;
+  resetTimer: number;
+  lockedPlayers: Map<string, LockInfo>;
+  strategies: Map<string, string>; // Strategy id by player; players without one play BALANCED
+  activeNodes: Map<string, number[]>; // Behaviour tree path each field player acted on this tick
+  kickCooldowns: Map<string, number>;
+  lastTouch: LastTouch | null;
+  setPiece: SetPiece | null;
+  offsideCheck: OffsideCheck | null;
+  pass: PassInFlight | null;
+  possession: Possession | null;
+  keeperHold: KeeperHold | null;
+  dives: Map<string, number>;    // Diving goalkeepers: ticks until they are back on their feet
+  cards: CardRecord[];
+  shots: ShotRecord[];
+  events: MatchEvent[];
+}
@@ -0,0 +1,47 @@
+// Ball Physics Profile
+// Constants the ball moves by, shared by the match engine and every trajectory predictor
+
+// Rolling friction that depends on the ball's speed
+export interface FrictionModel {
+  type: 'linear' | 'quadratic' | 'exponential' | 'piecewise';
+  coefficients: number[];
+  description: string;
+}
+
+export interface PhysicsProfile {
+  name: string;
+  groundFriction: number;        // Share of its speed a rolling ball keeps each tick
+  frictionModel?: FrictionModel; // Replaces groundFriction with a share that depends on speed
+  airFriction: number;           // Share kept each tick while off the ground
+  gravity: number;               // px/tick^2
+  bounce: number;                // Share of vertical speed kept on landing
+  minBounceSpeed: number;        // Slower landings stop bouncing and roll
+  spinDecay: number;             // Share of spin lost per tick
+  magnusCoefficient: number;     // Radians the path turns per tick per unit of spin
+}
+
+// Validation function
+export function validatePhysicsProfile(json: any): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!json || typeof json !== 'object') {
+    return { valid: false, errors: ['Physics profile must be an object'] };
+  }
+  if (!json.name || typeof json.name !== 'string') {
+    errors.push('Missing or invalid "name" field');
+  }
+  for (const key of ['groundFriction', 'airFriction', 'bounce', 'spinDecay']) {
+    if (typeof json[key] !== 'number' || json[key] < 0 || json[key] > 1) errors.push(`Invalid ${key} (must be 0-1)`);
+  }
+  for (const key of ['gravity', 'minBounceSpeed', 'magnusCoefficient']) {
+    if (typeof json[key] !== 'number' || json[key] < 0) errors.push(`Invalid ${key} (must be >= 0)`);
+  }
+  if (json.frictionModel !== undefined && (!Array.isArray(json.frictionModel.coefficients) || json.frictionModel.coefficients.length === 0)) {
+    errors.push('Invalid frictionModel (needs a coefficients array)');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
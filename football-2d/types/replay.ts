@@ -0,0 +1,56 @@
+// Match Replay File Format
+// A replay stores the seed and every external input so the match can be re-simulated,
+// plus periodic keyframes so viewers can scrub without running the engine.
+
+import { FormationPosition, MatchClockConfig, MatchEvent, MatchPhase, MatchRules, PlayerAttributes, PlayerRole, TeamSide, TeamSize } from './match';
+import { StrategyDefinition } from './strategy';
+import { MatchConditions } from './conditions';
+import { PhysicsProfile } from './physics';
+
+export const REPLAY_FORMAT = 'mx-egg-replay';
+export const REPLAY_VERSION = 1;
+
+export interface ReplayKeyframe {
+  tick: number;
+  phase: MatchPhase;
+  ball: [number, number, number?];     // x, y, height (absent in older replays)
+  players: number[];                   // Flat x, y pairs in ReplayFile.players order
+  locks?: Array<[string, number]>;     // playerId, sector (omitted when empty)
+}
+
+export interface ReplayInput {
+  tick: number;
+  sectorAssignments: number[];
+  strategies?: Record<string, string>; // Strategy ids by player id (omitted when none)
+}
+
+export interface ReplayDecision {
+  tick: number;
+  playerId: string;
+  previousStrategy: string;
+  selectedStrategy: string;
+  reasoning: string;
+}
+
+export interface ReplayFile {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  seed: number;
+  clock: MatchClockConfig;             // Settings the match was played with
+  rules: MatchRules;
+  teamSize: TeamSize;
+  formations: Record<TeamSide, string>; // Formation ids
+  strategies?: StrategyDefinition[];   // User strategies the match was played with (omitted when none)
+  controllers?: Record<TeamSide, string>; // Team controller ids (absent in older replays)
+  conditions?: MatchConditions;        // Wind and pitch the match was played in (absent in older replays: calm)
+  physics?: PhysicsProfile;            // Ball physics the match was played on (absent in older replays: default)
+  createdAt: string;
+  tickRate: number;
+  keyframeInterval: number;
+  durationTicks: number;
+  players: Array<{ id: string; role: PlayerRole; position: FormationPosition; attributes: PlayerAttributes }>;
+  inputs: ReplayInput[];
+  decisions: ReplayDecision[];
+  events: Array<{ tick: number; event: MatchEvent }>;
+  keyframes: ReplayKeyframe[];
+}
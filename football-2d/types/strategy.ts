@@ -0,0 +1,135 @@
+// Strategy Schema
+// Typed strategy records: what the AI can pick for a field player and how the engine plays it
+
+export type StrategyCategory = 'offensive' | 'defensive' | 'balanced';
+
+export const STRATEGY_CATEGORIES: StrategyCategory[] = ['offensive', 'defensive', 'balanced'];
+
+// Point a player's position is measured from:
+//   SUPPORT - the ball, moved to the depth the slot's line (DEF, MID, FWD) supports from
+//   BALL    - the ball
+//   SPACE   - beside the ball, on the side with fewer opponents close by
+//   HOME    - the slot's depth on the pitch, in the middle
+//   COVER   - between the ball and our goal
+//   MARK    - goal side of the nearest outfield opponent
+// `width` then spreads players sideways by their slot's width: 600 matches the formation
+export type StrategyAnchor = 'SUPPORT' | 'BALL' | 'SPACE' | 'HOME' | 'COVER' | 'MARK';
+
+export const STRATEGY_ANCHORS: StrategyAnchor[] = ['SUPPORT', 'BALL', 'SPACE', 'HOME', 'COVER', 'MARK'];
+
+export interface StrategyPositioning {
+  anchor: StrategyAnchor;
+  depth: number;                 // Px from the anchor towards the opponents' goal (negative drops back)
+  width: number | 'TOUCHLINE';   // Px spread across the pitch by the slot's width, or out on the slot's touchline
+  effort: number;                // Share of full sprint acceleration, 0-1
+  pressDistance: number;         // Closes down the opponents' ball this close even when a teammate is nearer
+  leash?: number;                // Never strays further than this from the slot's own spot
+}
+
+export interface StrategyDefinition {
+  id: string;                    // e.g. "DEFENSIVE_COVER"
+  label: string;                 // e.g. "Defensive Cover"
+  icon: string;
+  category: StrategyCategory;
+  description: string;           // One line for the AI prompt and the strategy panel
+  positioning: StrategyPositioning;
+  inPossession?: Partial<StrategyPositioning>; // Overrides while our team has the ball
+  onBall?: {
+    passWeight?: number;         // Multiplies the value of passing against carrying the ball (default 1)
+    progressWeight?: number;     // How strongly forward passes beat safe ones (default 1)
+    shootRange?: number;         // Multiplies the distance the player shoots from (default 1)
+  };
+}
+
+// Sample user strategy template
+export const SAMPLE_STRATEGY: StrategyDefinition = {
+  id: 'HIGH_LINE',
+  label: 'High Line',
+  icon: '📏',
+  category: 'defensive',
+  description: 'Hold a line just behind the ball to squeeze the space and catch forwards offside',
+  positioning: { anchor: 'BALL', depth: -80, width: 400, effort: 0.8, pressDistance: 100 },
+  inPossession: { depth: 0 },
+  onBall: { passWeight: 1.2, progressWeight: 1.2 }
+};
+
+const checkPositioning = (p: any, name: string, partial: boolean, errors: string[]) => {
+  const has = (key: string) => !partial || p[key] !== undefined;
+  if (has('anchor') && !STRATEGY_ANCHORS.includes(p.anchor)) {
+    errors.push(`${name}: anchor must be one of ${STRATEGY_ANCHORS.join(', ')}`);
+  }
+  if (has('depth') && typeof p.depth !== 'number') {
+    errors.push(`${name}: invalid depth (must be a number)`);
+  }
+  if (has('width') && p.width !== 'TOUCHLINE' && (typeof p.width !== 'number' || p.width < 0)) {
+    errors.push(`${name}: invalid width (must be >= 0 or "TOUCHLINE")`);
+  }
+  if (has('effort') && (typeof p.effort !== 'number' || p.effort < 0 || p.effort > 1)) {
+    errors.push(`${name}: invalid effort (must be 0-1)`);
+  }
+  if (has('pressDistance') && (typeof p.pressDistance !== 'number' || p.pressDistance < 0)) {
+    errors.push(`${name}: invalid pressDistance (must be >= 0)`);
+  }
+  if (p.leash !== undefined && (typeof p.leash !== 'number' || p.leash <= 0)) {
+    errors.push(`${name}: invalid leash (must be > 0)`);
+  }
+};
+
+// Validation function
+export function validateStrategy(json: any): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const name = typeof json?.id === 'string' ? `"${json.id}"` : 'Strategy';
+
+  if (!json || typeof json !== 'object') {
+    return { valid: false, errors: ['Strategy must be an object'] };
+  }
+  if (typeof json.id !== 'string' || !/^[A-Z0-9_]+$/.test(json.id)) {
+    errors.push(`${name}: missing or invalid "id" (UPPER_SNAKE_CASE)`);
+  }
+  for (const key of ['label', 'icon', 'description']) {
+    if (!json[key] || typeof json[key] !== 'string') errors.push(`${name}: missing or invalid "${key}" field`);
+  }
+  if (!STRATEGY_CATEGORIES.includes(json.category)) {
+    errors.push(`${name}: category must be one of ${STRATEGY_CATEGORIES.join(', ')}`);
+  }
+
+  if (!json.positioning || typeof json.positioning !== 'object') {
+    errors.push(`${name}: missing "positioning" object`);
+  } else {
+    checkPositioning(json.positioning, name, false, errors);
+  }
+  if (json.inPossession !== undefined) {
+    if (typeof json.inPossession !== 'object') errors.push(`${name}: "inPossession" must be an object`);
+    else checkPositioning(json.inPossession, `${name} inPossession`, true, errors);
+  }
+
+  if (json.onBall !== undefined) {
+    for (const key of ['passWeight', 'progressWeight', 'shootRange']) {
+      const v = json.onBall?.[key];
+      if (v !== undefined && (typeof v !== 'number' || v < 0)) errors.push(`${name}: invalid onBall.${key} (must be >= 0)`);
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Validate a list of user strategies, each on its own and for duplicate ids
+ */
+export function validateStrategies(json: any): { valid: boolean; errors: string[] } {
+  if (!Array.isArray(json)) {
+    return { valid: false, errors: ['Expected an array of strategies'] };
+  }
+  const errors = json.flatMap(s => validateStrategy(s).errors);
+  const ids = json.map(s => s?.id);
+  ids.forEach((id, i) => {
+    if (ids.indexOf(id) !== i) errors.push(`Duplicate strategy id "${id}"`);
+  });
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
@@ -0,0 +1,107 @@
+// Behaviour Trees
+// Runs JSON behaviour trees; the caller supplies what each condition and action means
+
+import {
+  BehaviourAction,
+  BehaviourActionNode,
+  BehaviourCondition,
+  BehaviourConditionNode,
+  BehaviourNode,
+  BehaviourTreeDefinition
+} from '../types/behaviour';
+
+export interface BehaviourVocabulary<C, R> {
+  conditions: Record<BehaviourCondition, (ctx: C, node: BehaviourConditionNode) => boolean>;
+  actions: Record<BehaviourAction, (ctx: C, node: BehaviourActionNode) => R>;
+}
+
+// The built-in field player: shield the ball when closed down, go for the ball, press when the
+// strategy says so, else play the strategy
+export const DEFAULT_BEHAVIOUR: BehaviourTreeDefinition = {
+  id: 'DEFAULT',
+  label: 'Default',
+  description: 'Nearest player chases the ball, the rest play the strategy the AI picked for them',
+  root: {
+    type: 'selector',
+    name: 'Field player',
+    children: [
+      {
+        type: 'sequence',
+        name: 'Shield the ball',
+        children: [
+          { type: 'condition', condition: 'HAS_BALL' },
+          { type: 'condition', condition: 'UNDER_PRESSURE' },
+          { type: 'action', action: 'SHIELD' }
+        ]
+      },
+      {
+        type: 'sequence',
+        name: 'Go for the ball',
+        children: [
+          { type: 'condition', condition: 'CHASER' },
+          { type: 'action', action: 'CHASE' }
+        ]
+      },
+      {
+        type: 'sequence',
+        name: 'Press',
+        children: [
+          { type: 'condition', condition: 'TEAM_HAS_BALL', not: true },
+          { type: 'condition', condition: 'KEEPER_HOLDING', not: true },
+          { type: 'condition', condition: 'SET_PIECE', not: true },
+          { type: 'condition', condition: 'IN_PRESS_RANGE' },
+          { type: 'action', action: 'PRESS' }
+        ]
+      },
+      { type: 'action', name: 'Play the strategy', action: 'STRATEGY' }
+    ]
+  }
+};
+
+/**
+ * Walk the tree for one player. Selectors try their children in order until one succeeds,
+ * sequences run theirs until one fails, and the first action reached decides the result.
+ * Returns that action's result and the child indices leading to it, or null if none was reached.
+ */
+export function runBehaviourTree<C, R>(
+  root: BehaviourNode,
+  ctx: C,
+  vocabulary: BehaviourVocabulary<C, R>
+): { result: R; path: number[] } | null {
+  const path: number[] = [];
+
+  // true/false for success/failure, or the action's result once one is reached
+  const visit = (node: BehaviourNode): boolean | { result: R } => {
+    switch (node.type) {
+      case 'condition':
+        return vocabulary.conditions[node.condition](ctx, node) !== !!node.not;
+      case 'action':
+        return { result: vocabulary.actions[node.action](ctx, node) };
+      default:
+        for (let i = 0; i < node.children.length; i++) {
+          path.push(i);
+          const outcome = visit(node.children[i]);
+          if (typeof outcome === 'object') return outcome;
+          path.pop();
+          if (outcome === (node.type === 'selector')) return outcome;
+        }
+        return node.type === 'sequence';
+    }
+  };
+
+  const outcome = visit(root);
+  return typeof outcome === 'object' ? { result: outcome.result, path } : null;
+}
+
+/**
+ * Short label for a node in the debug view
+ */
+export function describeBehaviourNode(node: BehaviourNode): string {
+  let detail: string = node.type;
+  if (node.type === 'condition') {
+    detail = `${node.not ? 'not ' : ''}${node.condition}${node.distance !== undefined ? ` ${node.distance}px` : ''}`;
+  } else if (node.type === 'action') {
+    detail = `${node.action}${node.effort !== undefined ? ` @ ${Math.round(node.effort * 100)}%` : ''}`;
+  }
+  return node.name ? `${node.name} · ${detail}` : detail;
+}
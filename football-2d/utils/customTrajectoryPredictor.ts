@@ -2,169 +2,66 @@
 // Executes user-defined algorithms from JSON configuration
 
 import { CustomAlgorithmDefinition } from '@/types/customAlgorithm';
-import { BallTrajectory, TrajectoryPoint } from './trajectoryPredictor';
-
-const FIELD_WIDTH = 1000;
-const FIELD_HEIGHT = 600;
+import { MatchConditions } from '@/types/conditions';
+import { PhysicsProfile } from '@/types/physics';
+import { BallPredictionOptions, BallTrajectory, predictBallTrajectory } from './trajectoryPredictor';
+import { DEFAULT_PHYSICS } from './physics';
+import { TICK_RATE } from './fixedTimestep';
 
 /**
- * Calculate friction based on custom friction function
+ * The algorithm as a physics profile, so the match can be played on it. Its friction is the share of
+ * speed kept per tick; spin only curls the ball when it models the Magnus effect.
  */
-function calculateCustomFriction(
-  velocity: number,
-  config: NonNullable<CustomAlgorithmDefinition['customFriction']>
-): number {
-  const { type, coefficients } = config;
-
-  switch (type) {
-    case 'linear':
-      // friction = c[0] + c[1] * velocity
-      return coefficients[0] + (coefficients[1] || 0) * velocity;
-
-    case 'quadratic':
-      // friction = c[0] + c[1] * velocity^2
-      return coefficients[0] + (coefficients[1] || 0) * velocity * velocity;
-
-    case 'exponential':
-      // friction = c[0] * exp(-c[1] * velocity)
-      return coefficients[0] * Math.exp(-(coefficients[1] || 0) * velocity);
-
-    case 'piecewise':
-      // Use different friction for different velocity ranges
-      // coefficients = [lowFriction, medFriction, highFriction, threshold1, threshold2]
-      if (velocity < coefficients[3]) return coefficients[0];
-      if (velocity < coefficients[4]) return coefficients[1];
-      return coefficients[2];
-
-    default:
-      return coefficients[0];
-  }
+export function getAlgorithmPhysics(algorithm: CustomAlgorithmDefinition): PhysicsProfile {
+  const { parameters, customFriction, ballPhysics } = algorithm;
+  return {
+    ...DEFAULT_PHYSICS,
+    name: algorithm.name,
+    groundFriction: parameters.friction,
+    ...(customFriction && { frictionModel: customFriction }),
+    spinDecay: ballPhysics?.spinDecay ?? DEFAULT_PHYSICS.spinDecay,
+    magnusCoefficient: ballPhysics?.magnusEffect ? ballPhysics.magnusCoefficient ?? DEFAULT_PHYSICS.magnusCoefficient : 0
+  };
 }
 
 /**
- * Get friction multiplier for a position based on surface zones
+ * The algorithm's environment as match conditions; wind is px/tick gained per second
  */
-function getSurfaceFrictionMultiplier(
-  x: number,
-  y: number,
-  zones?: Array<{ x1: number; y1: number; x2: number; y2: number; frictionMultiplier: number }>
-): number {
-  if (!zones) return 1.0;
-
-  for (const zone of zones) {
-    if (x >= zone.x1 && x <= zone.x2 && y >= zone.y1 && y <= zone.y2) {
-      return zone.frictionMultiplier;
-    }
-  }
-
-  return 1.0;
+function getAlgorithmConditions(algorithm: CustomAlgorithmDefinition): MatchConditions | undefined {
+  const { environment } = algorithm;
+  if (!environment) return undefined;
+  const wind = environment.windEnabled ? { x: (environment.windVx ?? 0) / TICK_RATE, y: (environment.windVy ?? 0) / TICK_RATE } : { x: 0, y: 0 };
+  return {
+    id: 'ALGORITHM',
+    label: algorithm.name,
+    description: `Environment of ${algorithm.name}`,
+    wind,
+    pitch: 'DRY',
+    zones: environment.surfaceFrictionZones ?? []
+  };
 }
 
 /**
- * Execute custom trajectory prediction algorithm
+ * Execute custom trajectory prediction algorithm. Match conditions in `options`, when given, are
+ * the wind and pitch the ball is really played in and replace the algorithm's own environment.
+ * Like the default predictor it stops where the ball goes out of play.
  */
 export function predictBallTrajectoryCustom(
   ballX: number,
   ballY: number,
   ballVx: number,
   ballVy: number,
-  algorithm: CustomAlgorithmDefinition
+  algorithm: CustomAlgorithmDefinition,
+  spin: number = 0,
+  options: Pick<BallPredictionOptions, 'z' | 'vz' | 'conditions' | 'lastTouch' | 'sidesSwitched'> = {}
 ): BallTrajectory {
-  const {
-    parameters,
-    customFriction,
-    environment,
-    ballPhysics
-  } = algorithm;
-
-  const path: TrajectoryPoint[] = [];
-
-  let x = ballX;
-  let y = ballY;
-  let vx = ballVx;
-  let vy = ballVy;
-  let t = 0;
-
-  const timeStep = parameters.timeStep;
-  const maxTime = parameters.maxPredictionTime;
-  let willExitField = false;
-
-  // Simulate forward in time
-  while (t < maxTime) {
-    // Calculate current speed
-    const speed = Math.sqrt(vx * vx + vy * vy);
-
-    // Apply friction
-    let frictionCoeff: number;
-    if (customFriction) {
-      frictionCoeff = calculateCustomFriction(speed, customFriction);
-    } else {
-      frictionCoeff = parameters.friction;
-    }
-
-    // Apply surface friction multiplier
-    const surfaceMultiplier = getSurfaceFrictionMultiplier(
-      x,
-      y,
-      environment?.surfaceFrictionZones
-    );
-    frictionCoeff *= surfaceMultiplier;
-
-    // Apply friction to velocity
-    vx *= frictionCoeff;
-    vy *= frictionCoeff;
-
-    // Apply wind if enabled
-    if (environment?.windEnabled && environment.windVx !== undefined && environment.windVy !== undefined) {
-      vx += environment.windVx * timeStep;
-      vy += environment.windVy * timeStep;
-    }
-
-    // Update position
-    x += vx;
-    y += vy;
-
-    // Bounce off walls with energy loss
-    if (x < 0 || x > FIELD_WIDTH) {
-      vx *= -parameters.bounceEnergyLoss;
-      x = Math.max(0, Math.min(FIELD_WIDTH, x));
-      if (x <= 0 || x >= FIELD_WIDTH) {
-        willExitField = true;
-      }
-    }
-    if (y < 0 || y > FIELD_HEIGHT) {
-      vy *= -parameters.bounceEnergyLoss;
-      y = Math.max(0, Math.min(FIELD_HEIGHT, y));
-      if (y <= 0 || y >= FIELD_HEIGHT) {
-        willExitField = true;
-      }
-    }
-
-    // Record position
-    path.push({
-      x,
-      y,
-      t: t + timeStep,
-      velocity: { vx, vy }
-    });
-
-    t += timeStep;
-
-    // Stop if ball has basically stopped moving
-    if (speed < parameters.stopThreshold) {
-      break;
-    }
-  }
-
-  const lastPoint = path[path.length - 1] || { x: ballX, y: ballY, t: 0 };
-
-  return {
-    currentPosition: { x: ballX, y: ballY },
-    predictedPath: path,
-    landingPosition: { x: lastPoint.x, y: lastPoint.y },
-    timeToStop: lastPoint.t,
-    willExitField
-  };
+  const { parameters } = algorithm;
+  return predictBallTrajectory(ballX, ballY, ballVx, ballVy, parameters.maxPredictionTime, parameters.timeStep, spin, {
+    ...options,
+    physics: getAlgorithmPhysics(algorithm),
+    conditions: options.conditions ?? getAlgorithmConditions(algorithm),
+    stopSpeed: parameters.stopThreshold
+  });
 }
 
 /**
@@ -0,0 +1,72 @@
+// Fixed Timestep Loop
+// Runs simulation ticks at a constant rate regardless of the display refresh rate.
+// The speed multiplier only changes how many ticks run per wall-clock second.
+
+import { Ball, Player } from '../types/match';
+
+export const TICK_RATE = 60; // Simulation ticks per second at 1x speed
+export const TICK_MS = 1000 / TICK_RATE;
+export const TICK_DT = 1;    // Engine time units advanced per tick
+
+const MAX_TICKS_PER_FRAME = 12; // Drop time after long stalls (tab switch) instead of fast-forwarding
+
+export class FixedTimestepLoop {
+  private accumulator = 0;
+
+  /**
+   * Consume elapsed wall-clock time and run as many whole ticks as fit.
+   * Returns the interpolation factor (0-1) between the previous and current tick.
+   */
+  advance(elapsedMs: number, speed: number, tick: () => void): number {
+    this.accumulator += Math.max(0, elapsedMs) * speed;
+
+    let ticks = 0;
+    while (this.accumulator >= TICK_MS && ticks < MAX_TICKS_PER_FRAME) {
+      tick();
+      this.accumulator -= TICK_MS;
+      ticks++;
+    }
+    if (ticks === MAX_TICKS_PER_FRAME) {
+      this.accumulator = Math.min(this.accumulator, TICK_MS);
+    }
+
+    return Math.min(1, this.accumulator / TICK_MS);
+  }
+
+  reset() {
+    this.accumulator = 0;
+  }
+}
+
+// --- Render Interpolation ---
+
+export interface RenderSnapshot {
+  ball: Ball;
+  red: Player[];
+  blue: Player[];
+}
+
+export const takeSnapshot = (state: RenderSnapshot): RenderSnapshot => ({
+  ball: { ...state.ball },
+  red: state.red.map(p => ({ ...p })),
+  blue: state.blue.map(p => ({ ...p }))
+});
+
+const mix = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const interpolatePlayers = (prev: Player[], curr: Player[], alpha: number) =>
+  curr.map(p => {
+    const before = prev.find(q => q.id === p.id);
+    return before ? { ...p, x: mix(before.x, p.x, alpha), y: mix(before.y, p.y, alpha) } : { ...p };
+  });
+
+/**
+ * Blend two tick snapshots for smooth rendering between simulation ticks
+ */
+export function interpolateSnapshots(prev: RenderSnapshot, curr: RenderSnapshot, alpha: number): RenderSnapshot {
+  return {
+    ball: { ...curr.ball, x: mix(prev.ball.x, curr.ball.x, alpha), y: mix(prev.ball.y, curr.ball.y, alpha), z: mix(prev.ball.z, curr.ball.z, alpha) },
+    red: interpolatePlayers(prev.red, curr.red, alpha),
+    blue: interpolatePlayers(prev.blue, curr.blue, alpha)
+  };
+}
@@ -0,0 +1,53 @@
+// Formations
+// Named line-ups for each team size: where every player kicks off and which line they hold
+
+import { Formation, FormationPosition, FormationSlot, TeamSize } from '../types/match';
+
+export const TEAM_SIZES: TeamSize[] = [4, 5, 7, 11];
+export const DEFAULT_TEAM_SIZE: TeamSize = 4;
+
+const GK: FormationSlot = { position: 'GK', depth: 0.08, width: 0.5 };
+
+// Spread a line of players evenly across the pitch at the given depth
+const line = (position: FormationPosition, depth: number, count: number): FormationSlot[] =>
+  Array.from({ length: count }, (_, i) => ({ position, depth, width: (i + 1) / (count + 1) }));
+
+const formation = (teamSize: TeamSize, ...lines: FormationSlot[][]): Formation => {
+  const id = lines.map(l => l.length).join('-');
+  return { id, name: `${id} (${teamSize}-a-side)`, teamSize, slots: [GK, ...lines.flat()] };
+};
+
+export const FORMATIONS: Formation[] = [
+  // The original 4-a-side line-up
+  {
+    id: '1-1-1',
+    name: '1-1-1 (4-a-side)',
+    teamSize: 4,
+    slots: [
+      GK,
+      { position: 'DEF', depth: 0.5, width: 0.567 },
+      { position: 'MID', depth: 0.5, width: 0.4 },
+      { position: 'FWD', depth: 0.5, width: 0.533 }
+    ]
+  },
+  formation(5, line('DEF', 0.35, 2), line('MID', 0.6, 1), line('FWD', 0.85, 1)),
+  formation(5, line('DEF', 0.35, 1), line('MID', 0.6, 2), line('FWD', 0.85, 1)),
+  formation(5, line('DEF', 0.4, 2), line('FWD', 0.8, 2)),
+  formation(7, line('DEF', 0.3, 3), line('MID', 0.6, 2), line('FWD', 0.85, 1)),
+  formation(7, line('DEF', 0.3, 2), line('MID', 0.6, 3), line('FWD', 0.85, 1)),
+  formation(7, line('DEF', 0.3, 3), line('MID', 0.6, 1), line('FWD', 0.85, 2)),
+  formation(11, line('DEF', 0.3, 4), line('MID', 0.6, 4), line('FWD', 0.85, 2)),
+  formation(11, line('DEF', 0.3, 4), line('MID', 0.55, 3), line('FWD', 0.85, 3)),
+  formation(11, line('DEF', 0.3, 3), line('MID', 0.6, 5), line('FWD', 0.85, 2))
+];
+
+export const getFormationsForSize = (teamSize: TeamSize) =>
+  FORMATIONS.filter(f => f.teamSize === teamSize);
+
+/**
+ * Look up a formation by id, falling back to the first one for the team size
+ */
+export function getFormation(id: string | undefined, teamSize: TeamSize = DEFAULT_TEAM_SIZE): Formation {
+  const options = getFormationsForSize(teamSize);
+  return options.find(f => f.id === id) ?? options[0];
+}
@@ -0,0 +1,119 @@
+// Match Clock
+// Halves, breaks, added time and extra time, all measured in simulation ticks
+
+import { MatchClock, MatchClockConfig, MatchClockInfo, MatchPeriod, TeamSide } from '../types/match';
+import { TICK_RATE } from './fixedTimestep';
+
+export const DEFAULT_MATCH_CLOCK: MatchClockConfig = {
+  halfMinutes: 3,
+  extraTime: false,
+  extraTimeHalfMinutes: 1,
+  breakSeconds: 3
+};
+
+const PERIOD_LABELS: Record<MatchPeriod, string> = {
+  FIRST_HALF: '1st Half',
+  HALF_TIME: 'Half Time',
+  SECOND_HALF: '2nd Half',
+  EXTRA_TIME_BREAK: 'Extra Time Break',
+  EXTRA_TIME_FIRST: 'Extra Time 1st',
+  EXTRA_TIME_HALF_TIME: 'Extra Time Half Time',
+  EXTRA_TIME_SECOND: 'Extra Time 2nd',
+  FULL_TIME: 'Full Time'
+};
+
+const BREAK_PERIODS: MatchPeriod[] = ['HALF_TIME', 'EXTRA_TIME_BREAK', 'EXTRA_TIME_HALF_TIME'];
+const EXTRA_TIME_PERIODS: MatchPeriod[] = ['EXTRA_TIME_BREAK', 'EXTRA_TIME_FIRST', 'EXTRA_TIME_HALF_TIME', 'EXTRA_TIME_SECOND'];
+
+const minutesToTicks = (minutes: number) => Math.round(minutes * 60 * TICK_RATE);
+
+export const isBreakPeriod = (period: MatchPeriod) => BREAK_PERIODS.includes(period);
+
+export const getPeriodLabel = (period: MatchPeriod) => PERIOD_LABELS[period];
+
+/**
+ * Period that follows the given one. Extra time is only played when enabled and level.
+ */
+export function getNextPeriod(
+  period: MatchPeriod,
+  config: MatchClockConfig,
+  score: Record<TeamSide, number>
+): MatchPeriod {
+  switch (period) {
+    case 'FIRST_HALF': return 'HALF_TIME';
+    case 'HALF_TIME': return 'SECOND_HALF';
+    case 'SECOND_HALF': return config.extraTime && score.red === score.blue ? 'EXTRA_TIME_BREAK' : 'FULL_TIME';
+    case 'EXTRA_TIME_BREAK': return 'EXTRA_TIME_FIRST';
+    case 'EXTRA_TIME_FIRST': return 'EXTRA_TIME_HALF_TIME';
+    case 'EXTRA_TIME_HALF_TIME': return 'EXTRA_TIME_SECOND';
+    default: return 'FULL_TIME';
+  }
+}
+
+/**
+ * Fresh clock for the start of a period
+ */
+export function createPeriodClock(period: MatchPeriod, config: MatchClockConfig, previous?: MatchClock): MatchClock {
+  const half = minutesToTicks(config.halfMinutes);
+  const extraHalf = minutesToTicks(config.extraTimeHalfMinutes);
+
+  const starts: Record<MatchPeriod, number> = {
+    FIRST_HALF: 0,
+    HALF_TIME: half,
+    SECOND_HALF: half,
+    EXTRA_TIME_BREAK: half * 2,
+    EXTRA_TIME_FIRST: half * 2,
+    EXTRA_TIME_HALF_TIME: half * 2 + extraHalf,
+    EXTRA_TIME_SECOND: half * 2 + extraHalf,
+    // Full time freezes the clock wherever the last period ended
+    FULL_TIME: previous ? previous.clockStart + previous.periodTick : half * 2
+  };
+
+  let periodLength = 0;
+  if (period === 'FIRST_HALF' || period === 'SECOND_HALF') periodLength = half;
+  if (period === 'EXTRA_TIME_FIRST' || period === 'EXTRA_TIME_SECOND') periodLength = extraHalf;
+
+  return {
+    period,
+    periodTick: 0,
+    periodLength,
+    clockStart: starts[period],
+    stoppageTicks: 0,
+    addedTicks: null
+  };
+}
+
+const formatTicks = (ticks: number) => {
+  const seconds = Math.floor(ticks / TICK_RATE);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Clock as shown on the scoreboard, e.g. "4:12" or "6:00 +0:03" in added time
+ */
+export function formatMatchClock(clock: MatchClock): string {
+  if (clock.periodLength > 0 && clock.periodTick > clock.periodLength) {
+    return `${formatTicks(clock.clockStart + clock.periodLength)} +${formatTicks(clock.periodTick - clock.periodLength)}`;
+  }
+  return formatTicks(clock.clockStart + clock.periodTick);
+}
+
+/**
+ * Summary of the clock for player knowledge and the AI prompt
+ */
+export function describeMatchClock(clock: MatchClock, config: MatchClockConfig): MatchClockInfo {
+  const half = minutesToTicks(config.halfMinutes);
+  const extraHalf = minutesToTicks(config.extraTimeHalfMinutes);
+  const matchEnd = EXTRA_TIME_PERIODS.includes(clock.period) ? half * 2 + extraHalf * 2 : half * 2;
+  const elapsed = clock.clockStart + Math.min(clock.periodTick, clock.periodLength);
+
+  const periodRemaining = clock.periodLength + (clock.addedTicks ?? 0) - clock.periodTick;
+
+  return {
+    period: clock.period,
+    label: getPeriodLabel(clock.period),
+    display: formatMatchClock(clock),
+    secondsRemainingInPeriod: Math.max(0, Math.ceil(periodRemaining / TICK_RATE)),
+    secondsRemainingInMatch: clock.period === 'FULL_TIME' ? 0 : Math.max(0, Math.ceil((matchEnd - elapsed) / TICK_RATE))
+  };
+}
@@ -0,0 +1,100 @@
+// Match Conditions
+// Weather presets and how the wind and the pitch act on the ball, shared by the engine and predictors
+
+import { MatchConditions, SurfaceZone } from '../types/conditions';
+
+const WET_DRAG = 0.75;          // Share of the usual rolling speed loss on a wet pitch
+const WIND_GROUND_SHARE = 0.25; // Share of the wind a ball rolling along the grass feels
+const WIND_MIN_SPEED = 0.5;     // Slower balls have settled and the wind leaves them be
+
+export const CALM_CONDITIONS: MatchConditions = {
+  id: 'CALM',
+  label: 'Calm',
+  description: 'Still air on a dry pitch',
+  wind: { x: 0, y: 0 },
+  pitch: 'DRY',
+  zones: []
+};
+
+// Conditions offered in the game and by the simulator; add your own here
+export const MATCH_CONDITIONS: MatchConditions[] = [
+  CALM_CONDITIONS,
+  {
+    id: 'BREEZY',
+    label: 'Breezy',
+    description: 'A light wind blowing towards the right-hand goal',
+    wind: { x: 0.02, y: 0 },
+    pitch: 'DRY',
+    zones: []
+  },
+  {
+    id: 'WINDY',
+    label: 'Windy',
+    description: 'A strong crosswind that bends long balls towards the bottom touchline',
+    wind: { x: 0.02, y: 0.05 },
+    pitch: 'DRY',
+    zones: []
+  },
+  {
+    id: 'WET',
+    label: 'Wet',
+    description: 'Rain on the grass, so the ball skids on further',
+    wind: { x: 0, y: 0 },
+    pitch: 'WET',
+    zones: []
+  },
+  {
+    id: 'WORN',
+    label: 'Worn Pitch',
+    description: 'Late-season pitch with bare, bumpy goalmouths and a heavy centre circle',
+    wind: { x: 0, y: 0 },
+    pitch: 'DRY',
+    zones: [
+      { x1: 0, y1: 180, x2: 120, y2: 420, frictionMultiplier: 1.8 },
+      { x1: 880, y1: 180, x2: 1000, y2: 420, frictionMultiplier: 1.8 },
+      { x1: 420, y1: 220, x2: 580, y2: 380, frictionMultiplier: 1.4 }
+    ]
+  },
+  {
+    id: 'STORM',
+    label: 'Storm',
+    description: 'Driving wind and rain with standing water out wide',
+    wind: { x: -0.05, y: 0.03 },
+    pitch: 'WET',
+    zones: [
+      { x1: 0, y1: 0, x2: 1000, y2: 60, frictionMultiplier: 3 },
+      { x1: 0, y1: 540, x2: 1000, y2: 600, frictionMultiplier: 3 }
+    ]
+  }
+];
+
+/**
+ * Conditions with the given id, falling back to calm
+ */
+export const getMatchConditions = (id: string | undefined): MatchConditions =>
+  MATCH_CONDITIONS.find(c => c.id === id) ?? CALM_CONDITIONS;
+
+/**
+ * Zone of the pitch the point is in, if any
+ */
+export const getSurfaceZone = (x: number, y: number, conditions: MatchConditions): SurfaceZone | undefined =>
+  conditions.zones.find(z => x >= z.x1 && x <= z.x2 && y >= z.y1 && y <= z.y2);
+
+/**
+ * Share of its speed a ball rolling at (x, y) keeps each tick, given the share it
+ * keeps on a dry pitch with no zones
+ */
+export function getGroundFriction(x: number, y: number, conditions: MatchConditions, friction: number): number {
+  const drag = (conditions.pitch === 'WET' ? WET_DRAG : 1) * (getSurfaceZone(x, y, conditions)?.frictionMultiplier ?? 1);
+  return Math.max(0, 1 - (1 - friction) * drag);
+}
+
+/**
+ * Acceleration the wind gives the ball this tick: all of it in the air,
+ * a share of it along the ground and none once the ball has settled
+ */
+export function getWindPush(conditions: MatchConditions, airborne: boolean, speed: number): { x: number; y: number } {
+  if (!airborne && speed < WIND_MIN_SPEED) return { x: 0, y: 0 };
+  const share = airborne ? 1 : WIND_GROUND_SHARE;
+  return { x: conditions.wind.x * share, y: conditions.wind.y * share };
+}
@@ -0,0 +1,1617 @@
+// Headless Match Engine
+// Pure, deterministic football simulation: step(dt, inputs) -> state.
+// Has no React or browser dependencies so it can run in Node as well as in the game.
+
+import { SeededRandom, createSeed } from './seededRandom';
+import { TICK_RATE } from './fixedTimestep';
+import {
+  DEFAULT_MATCH_CLOCK,
+  createPeriodClock,
+  formatMatchClock,
+  getNextPeriod,
+  isBreakPeriod
+} from './matchClock';
+import { DEFAULT_TEAM_SIZE, getFormation } from './formations';
+import { createPlayerAttributes } from './playerAttributes';
+import { evaluatePassQuality, getOutOfPlay, predictBallTrajectory, PassPlayer } from './trajectoryPredictor';
+import { DEFAULT_STRATEGY, StrategyRegistry, createStrategyRegistry, getPositioningTarget } from './strategies';
+import { BehaviourVocabulary, DEFAULT_BEHAVIOUR, runBehaviourTree } from './behaviourTree';
+import { Vector, arrive, avoid, limit, pursue, seek, separation } from './steering';
+import { CALM_CONDITIONS } from './matchConditions';
+import { DEFAULT_PHYSICS, advanceBall, getRollingFriction } from './physics';
+import {
+  Ball,
+  Player,
+  MatchState,
+  MatchInputs,
+  MatchClockConfig,
+  MatchRules,
+  MatchPeriod,
+  Formation,
+  FormationPosition,
+  FormationSlot,
+  PassInFlight,
+  PlayerAttributes,
+  TeamSize,
+  RestartType,
+  ShotOutcome,
+  FoulType,
+  TeamSide
+} from '../types/match';
+import { StrategyDefinition, StrategyPositioning } from '../types/strategy';
+import { BehaviourTreeDefinition } from '../types/behaviour';
+import { MatchConditions } from '../types/conditions';
+import { PhysicsProfile } from '../types/physics';
+import { KickIntent, PlayerIntent, TeamController, TeamObservation } from '../types/controller';
+
+// --- Constants ---
+export const FIELD_WIDTH = 1000;
+export const FIELD_HEIGHT = 600;
+export const GOAL_TOP = 240;
+export const GOAL_BOTTOM = 360;
+
+// FIFA penalty area and spot scaled from a 105m x 68m pitch, matching Field3D
+export const PENALTY_AREA_DEPTH = 16.5 * (FIELD_WIDTH / 105);
+export const PENALTY_AREA_TOP = FIELD_HEIGHT/2 - 20.16 * (FIELD_HEIGHT / 68);
+export const PENALTY_AREA_BOTTOM = FIELD_HEIGHT/2 + 20.16 * (FIELD_HEIGHT / 68);
+export const PENALTY_SPOT_DISTANCE = 11 * (FIELD_WIDTH / 105);
+
+export const PLAYER_RADIUS = 12;
+export const BALL_RADIUS = 8;
+
+// Heights in px above the pitch, on the same scale as Field3D (crossbar at 4m-equivalent)
+export const CROSSBAR_HEIGHT = 40;
+export const FOOT_HEIGHT = 8;        // Below this the ball is played with the feet
+export const HEAD_HEIGHT = 24;       // Highest a field player can reach with a header
+export const GK_REACH_HEIGHT = 34;   // Goalkeepers can use their hands in their own area
+
+// Physics Base Values (the ball's are in its PhysicsProfile)
+export const BASE_FRICTION = 0.94;      // Share of their speed players keep each tick
+const SPIN_PER_KICK = 0.3;              // Spin from striking off-centre, per unit of power
+const SPRINT_ACCEL = 0.8;       // Acceleration of an average player at full effort
+const PLAYER_TOP_SPEED = SPRINT_ACCEL / (1 - BASE_FRICTION); // ~13.3 px/tick for an average player
+const MAX_KICK_ERROR = 0.35;    // Radians off target for a player with zero accuracy
+const ARRIVE_RADIUS = 60;       // Players ease off this far from a spot they are taking up
+const SEPARATION_RADIUS = 50;   // Teammates closer than this spread out
+const SEPARATION_WEIGHT = 0.5;  // Share of full acceleration each crowding teammate pushes with
+const AVOID_LOOKAHEAD = 80;     // Opponents this far ahead on a run are swerved around
+const AVOID_CLEARANCE = PLAYER_RADIUS * 3;
+const AVOID_WEIGHT = 1;
+const CONTEST_RANGE = 40;       // Opponents this close to a player's target are run at, not around
+const PURSUIT_TICKS = 90;       // Ball prediction used to run onto a moving ball
+
+// Stamina (fraction of a full tank per tick)
+const SPRINT_DRAIN = 1 / (TICK_RATE * 35);       // 35s of flat-out sprinting empties it
+const JOG_RECOVERY = 1 / (TICK_RATE * 120);      // Recovered while jogging below JOG_SPEED
+const STOPPAGE_RECOVERY = 1 / (TICK_RATE * 20);  // Recovered while play is stopped
+const JOG_SPEED = 0.3;          // Fraction of top speed that still counts as jogging
+const FATIGUE_THRESHOLD = 0.5;  // Below this stamina, speed and power start to fade
+const EXHAUSTED_FACTOR = 0.7;   // Speed and power left at zero stamina
+const DRIBBLE_POWER = 3.5;
+const PASS_POWER = 7;
+const SHOOT_POWER = 14;
+const HEADER_POWER = 5;
+const LOB_LIFT = 4.5;           // Lofted pass over an opponent in the passing lane
+const CHIP_LIFT = 5;            // Shot over a keeper who has come off the line
+const CROSS_LIFT = 5;           // Corners and goal kicks
+const THROW_LIFT = 2;
+const LANE_WIDTH = 20;          // Opponents this close to the line of a pass block it,
+const LANE_START = 40;          // far enough ahead for a lofted ball to clear them
+const LANE_LENGTH = 120;
+const KICK_COOLDOWN = 15;
+const PASS_TIMEOUT = 90;        // Ticks a receiver keeps running onto a pass
+
+// Ball carrier decisions
+const SHOOT_RANGE = 180;        // Distance from the goal centre within which carriers shoot
+const CLOSE_RANGE = 80;         // Shoot from here even through a crowded lane
+const POST_MARGIN = 15;         // Shots aim this far inside a post
+const SHOT_DISTANCE_ERROR = 0.12; // Extra radians of error for a shot from SHOOT_RANGE
+const SHOT_PRESSURE_ERROR = 0.15; // Extra radians of error with an opponent in contact
+const MIN_PASS_DISTANCE = 40;
+const MAX_PASS_DISTANCE = 220;  // About as far as a full-power ground pass rolls
+const PASS_CARRY = 40;          // Passes are hit to roll this far past the receiver
+const MIN_LOB_DISTANCE = 150;   // Shorter lofted balls come down on the opponent they should clear
+const LOFT_CARRY = 0.5;         // Lofted balls carry about twice as far for the same power
+const MIN_PASS_QUALITY = 0.9;   // Riskier passes are never attempted
+const PASS_PROGRESS = 200;      // Forward distance that doubles a pass's value
+const OPEN_DRIBBLE_VALUE = 1.2; // Value of carrying the ball with no one closing in
+const PRESSED_DRIBBLE_VALUE = 0.3;
+const PRESSURE_RADIUS = 60;     // An opponent this close puts the carrier under pressure
+const DRIBBLE_SWERVE = 2;       // Weight of the swerve round an opponent against heading for goal
+
+// Goalkeeping
+const GK_ACCEL = 0.4;           // Keepers shuffle across their goal at less than full effort
+const GK_MIN_DEPTH = 25;        // Distance off the goal line with play far away
+const GK_MAX_DEPTH = 70;        // Furthest the keeper comes out to narrow the angle
+const GK_ADVANCE_RANGE = 400;   // Ball distance at which the keeper starts coming off the line
+const DIVE_WINDOW = 15;         // Ticks before the ball arrives that a keeper commits to a dive
+const SAVE_LOOKAHEAD = 30;      // Ticks of a shot's flight the keeper reads
+const DIVE_SPEED = 7;
+const DIVE_REACH = 28;          // Extra reach at full stretch
+const DIVE_STRETCH = 15;        // Ticks of a dive spent at full stretch
+const DIVE_TICKS = 45;          // Ticks from take-off until the keeper is back on their feet
+const CATCH_SPEED = 9;          // Slower balls are caught (half this when diving), harder ones parried
+const PARRY_KEEP = 0.4;         // Share of the ball's speed left after a parry
+const CLAIM_SPEED = 4;          // Loose balls slower than this in the area are claimed
+const HOLD_TICKS = 60;          // Ticks the keeper holds the ball before distributing it
+const PUNT_RANGE = 500;
+const PUNT_CARRY = 39;          // Px a ball kicked with CROSS_LIFT carries per unit of power
+const SET_PIECE_DISTANCE = 90;  // Opponents stay this far from a dead ball (~10 yards)
+const SET_PIECE_TIMEOUT = 240;  // Ticks before an untaken restart is played live anyway
+
+// Close control and tackles
+const CONTROL_SPEED = 10;       // Balls reaching a player slower than this (relative to them) can be controlled
+const LOSE_CONTROL_RANGE = 45;  // The carrier loses the ball once it runs this far from them
+const MIN_TOUCH_TICKS = 6;      // Ticks between touches for a carrier standing still...
+const MAX_TOUCH_TICKS = 18;     // ...and at full sprint, when each touch pushes the ball further ahead
+const TOUCH_LEAD = 1.1;         // Touches send the ball this much faster than the carrier is running,
+const TOUCH_KNOCK = 0.4;        // plus this share of the dribble's power
+const SHIELD_POWER = 1.5;       // Touch that keeps the ball on the far side from a close opponent
+const TACKLE_CHANCE = 0.5;      // Of winning the ball from a carrier who is not shielding it
+const SHIELD_PROTECTION = 0.8;  // Share of that chance lost when the carrier is right between tackler and ball
+const TACKLE_POWER = 4;         // Pace of a ball knocked loose by a tackle
+const TACKLE_RECOVERY = 30;     // Ticks before a beaten tackler, or a dispossessed carrier, can play the ball
+
+// Fouls (closing speeds in px/tick along the line of contact)
+const FROM_BEHIND_SPEED = 7;    // Contact from behind on the carrier above this is a foul
+const CHARGE_SPEED = 16;        // Charging into the carrier above this is a foul from any angle
+const RECKLESS_SPEED = 22;      // Yellow card
+const VIOLENT_SPEED = 30;       // Straight red card
+export const TACTICAL_LOCK_DURATION = 300; // Increased duration slightly for better observation
+
+// Where each line supports from in open play, measured from the ball towards the opponents' goal
+const SUPPORT_DEPTH: Record<Exclude<FormationPosition, 'GK'>, number> = {
+  DEF: -200,
+  MID: -50,
+  FWD: 100
+};
+
+// Goal reset animation
+const RESET_DURATION = 120; // Ticks spent walking back to kickoff positions
+const RESET_LERP = 0.1;     // Fraction of remaining distance covered per tick
+
+export const DEFAULT_MATCH_RULES: MatchRules = {
+  offside: true
+};
+
+// Game States
+export const STATE = {
+  PLAYING: 'PLAYING',
+  RESETTING: 'RESETTING',
+  FINISHED: 'FINISHED'
+} as const;
+
+// --- Helper Functions ---
+
+const isInGoalMouth = (y: number) => y > GOAL_TOP && y < GOAL_BOTTOM;
+
+/**
+ * Team attacking the goal on the given side. Red attacks left until sides are switched.
+ */
+export const getTeamAttacking = (side: 'left' | 'right', sidesSwitched: boolean): TeamSide =>
+  (side === 'left') !== sidesSwitched ? 'red' : 'blue';
+
+const opponentOf = (team: TeamSide): TeamSide => team === 'red' ? 'blue' : 'red';
+
+/**
+ * Side of the pitch whose goal the team defends
+ */
+export const getDefendedSide = (team: TeamSide, sidesSwitched: boolean): 'left' | 'right' =>
+  getTeamAttacking('left', sidesSwitched) === team ? 'right' : 'left';
+
+export const isInPenaltyArea = (x: number, y: number, side: 'left' | 'right') =>
+  y > PENALTY_AREA_TOP && y < PENALTY_AREA_BOTTOM &&
+  (side === 'left' ? x < PENALTY_AREA_DEPTH : x > FIELD_WIDTH - PENALTY_AREA_DEPTH);
+
+export const getSprintAcceleration = (attributes: PlayerAttributes) => SPRINT_ACCEL * attributes.acceleration;
+
+/**
+ * Share of top speed and kick power a player still has at the given stamina
+ */
+export const getFatigueFactor = (stamina: number) =>
+  EXHAUSTED_FACTOR + (1 - EXHAUSTED_FACTOR) * Math.min(1, stamina / FATIGUE_THRESHOLD);
+
+/**
+ * Fastest a player can run: their rated top speed, unless their acceleration
+ * cannot sustain it against friction. Tired players are slower.
+ */
+export const getTopSpeed = (attributes: PlayerAttributes, stamina = 1) =>
+  Math.min(PLAYER_TOP_SPEED * attributes.speed, getSprintAcceleration(attributes) / (1 - BASE_FRICTION)) * getFatigueFactor(stamina);
+
+/**
+ * Spin from striking the ball off-centre: the further the kick direction is from the
+ * line through the ball's centre, the more the ball curls back towards that line
+ */
+export const getKickSpin = (contactAngle: number, kickAngle: number, power: number) =>
+  -SPIN_PER_KICK * Math.sin(kickAngle - contactAngle) * power;
+
+// Opponent a little way along the line from the player at the given angle
+const isInLane = (p: Player, angle: number, o: Player) => {
+  const dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+  const along = (o.x - p.x) * dx + (o.y - p.y) * dy;
+  const across = Math.abs((o.y - p.y) * dx - (o.x - p.x) * dy);
+  return along > LANE_START && along < LANE_LENGTH && across < LANE_WIDTH;
+};
+
+const clampToField = (x: number, y: number) => ({
+  x: Math.max(20, Math.min(FIELD_WIDTH - 20, x)),
+  y: Math.max(20, Math.min(FIELD_HEIGHT - 20, y))
+});
+
+// Linear Interpolation for smooth resets
+const lerp = (start: number, end: number, t: number) => start + (end - start) * t;
+
+/**
+ * Centre of a 3x3 tactical sector in field coordinates
+ */
+export const getSectorCenter = (sectorId: number) => {
+  const sectorW = FIELD_WIDTH / 3;
+  const sectorH = FIELD_HEIGHT / 3;
+  const col = sectorId % 3;
+  const row = Math.floor(sectorId / 3);
+  return { x: (col * sectorW) + (sectorW / 2), y: (row * sectorH) + (sectorH / 2) };
+};
+
+// Capability of a player as seen by the pass evaluation
+const toPassPlayer = (p: Player): PassPlayer => ({
+  x: p.x, y: p.y, vx: p.vx, vy: p.vy,
+  maxSpeed: getTopSpeed(p.attributes, p.stamina),
+  acceleration: getSprintAcceleration(p.attributes)
+});
+
+// Ground power that rolls the ball the given distance and a little beyond
+const getPassPower = (distance: number, physics: PhysicsProfile) => {
+  const friction = getRollingFriction(physics, PASS_POWER);
+  return Math.max(DRIBBLE_POWER, Math.min(SHOOT_POWER, (distance + PASS_CARRY) * (1 - friction) / friction));
+};
+
+// Opponent standing a little way along the line the ball is about to travel
+const isLaneBlocked = (p: Player, angle: number, opponents: Player[]) => opponents.some(o => isInLane(p, angle, o));
+
+/**
+ * Teammates of the passer currently standing in an offside position
+ */
+export function getOffsidePlayerIds(state: MatchState, rules: MatchRules, side: TeamSide, passerId: string): string[] {
+  if (!rules.offside) return [];
+
+  const attacksLeft = getDefendedSide(side, state.sidesSwitched) === 'right';
+  const depth = (x: number) => attacksLeft ? -x : x; // Larger is closer to the goal being attacked
+  const defenders = state[opponentOf(side)].map(o => depth(o.x)).sort((a, b) => b - a);
+  const line = Math.max(defenders[1] ?? -Infinity, depth(state.ball.x));
+
+  return state[side]
+    .filter(p => p.id !== passerId && depth(p.x) > depth(FIELD_WIDTH/2) && depth(p.x) > line)
+    .map(p => p.id);
+}
+
+/**
+ * Point in the goal mouth to shoot at: whichever of the far post, near post and centre
+ * is furthest (by angle) from the keeper, preferring the far post when it is close
+ */
+const chooseShotTarget = (b: Ball, goalX: number, keeper: Player | undefined) => {
+  const nearTop = b.y < FIELD_HEIGHT/2;
+  const farPost = nearTop ? GOAL_BOTTOM - POST_MARGIN : GOAL_TOP + POST_MARGIN;
+  const nearPost = nearTop ? GOAL_TOP + POST_MARGIN : GOAL_BOTTOM - POST_MARGIN;
+  const candidates = [farPost, nearPost, FIELD_HEIGHT/2];
+  if (!keeper) return { x: goalX, y: farPost };
+
+  const keeperAngle = Math.atan2(keeper.y - b.y, keeper.x - b.x);
+  const clearance = (y: number) => {
+    const diff = Math.atan2(y - b.y, goalX - b.x) - keeperAngle;
+    return Math.abs(Math.atan2(Math.sin(diff), Math.cos(diff)));
+  };
+  const y = candidates.reduce((best, c) => clearance(c) > clearance(best) + 0.02 ? c : best);
+  return { x: goalX, y };
+};
+
+// Strategy the player is currently following
+const getStrategy = ({ state, strategies }: TeamObservation, p: Player): StrategyDefinition =>
+  strategies[state.strategies.get(p.id) ?? DEFAULT_STRATEGY];
+
+/**
+ * Best pass on for the player, scoring every onside teammate with evaluatePassQuality
+ * and weighting safe passes by how far they move the ball forward
+ */
+const choosePass = (observation: TeamObservation, p: Player, progressWeight = 1) => {
+  const { state, rules, side, team, opponents, attacksLeft, physics } = observation;
+  const b = state.ball;
+  const depth = (x: number) => attacksLeft ? -x : x; // Larger is closer to the goal being attacked
+  const offside = new Set(getOffsidePlayerIds(state, rules, side, p.id));
+  const threats = opponents.map(toPassPlayer);
+  let best: KickIntent | null = null;
+  let bestValue = 0;
+  team.forEach(t => {
+    if (t.id === p.id || offside.has(t.id)) return;
+    // Lead the receiver by roughly the time the ball takes to get there
+    let distance = Math.hypot(t.x - b.x, t.y - b.y);
+    const lead = distance / getPassPower(distance, physics);
+    const tx = t.x + t.vx * lead;
+    const ty = t.y + t.vy * lead;
+    distance = Math.hypot(tx - b.x, ty - b.y);
+    if (distance < MIN_PASS_DISTANCE || distance > MAX_PASS_DISTANCE) return;
+
+    // A blocked lane is played over the top, so only opponents off the line can cut it out
+    const angle = Math.atan2(ty - b.y, tx - b.x);
+    const lofted = isLaneBlocked(p, angle, opponents);
+    if (lofted && distance < MIN_LOB_DISTANCE) return;
+    const power = getPassPower(distance, physics);
+    const { quality } = evaluatePassQuality(
+      b.x, b.y, tx, ty, power,
+      lofted ? threats.filter((_, i) => !isInLane(p, angle, opponents[i])) : threats,
+      toPassPlayer(t),
+      { physics, conditions: observation.conditions, lastTouch: side, sidesSwitched: state.sidesSwitched }
+    );
+    if (quality < MIN_PASS_QUALITY) return;
+
+    const progress = Math.max(-1, Math.min(1, (depth(tx) - depth(b.x)) / PASS_PROGRESS));
+    const value = quality * (1 + progress * progressWeight);
+    if (value > bestValue) {
+      bestValue = value;
+      best = { type: 'PASS', angle, power: lofted ? power * LOFT_CARRY : power, lofted, target: { x: tx, y: ty }, receiverId: t.id };
+    }
+  });
+  return best ? { choice: best as KickIntent, value: bestValue } : null;
+};
+
+/**
+ * What the ball carrier does with their touch. Shots are taken in range when the lane to goal
+ * is clear (or from close in); otherwise the best pass is played if it beats carrying the ball
+ * on. The player's strategy stretches their shooting range and weights passing against dribbling.
+ */
+export function chooseKick(observation: TeamObservation, p: Player): KickIntent {
+  const { passWeight = 1, progressWeight = 1, shootRange = 1 } = getStrategy(observation, p).onBall ?? {};
+  const { state, opponents, attacksLeft } = observation;
+  const b = state.ball;
+  const goalX = attacksLeft ? 0 : FIELD_WIDTH;
+
+  const goalAngle = Math.atan2(FIELD_HEIGHT/2 - b.y, goalX - b.x);
+  const distToGoal = Math.hypot(goalX - b.x, FIELD_HEIGHT/2 - b.y);
+  if (distToGoal < CLOSE_RANGE || (distToGoal < SHOOT_RANGE * shootRange && !isLaneBlocked(p, goalAngle, opponents))) {
+    const target = chooseShotTarget(b, goalX, opponents.find(o => o.role === 'GK'));
+    const angle = Math.atan2(target.y - b.y, target.x - b.x);
+    return { type: 'SHOT', angle, power: SHOOT_POWER, lofted: false, target };
+  }
+
+  const pass = choosePass(observation, p, progressWeight);
+  const pressed = opponents.some(o => Math.hypot(o.x - p.x, o.y - p.y) < PRESSURE_RADIUS);
+  if (pass && pass.value * passWeight > (pressed ? PRESSED_DRIBBLE_VALUE : OPEN_DRIBBLE_VALUE)) return pass.choice;
+
+  // Closed down from in front with nothing on: keep the ball on the far side and wait for support
+  const heading = { x: Math.cos(goalAngle), y: Math.sin(goalAngle) };
+  const marker = opponents.find(o => o.role !== 'GK' && Math.hypot(o.x - p.x, o.y - p.y) < PRESSURE_RADIUS &&
+    (o.x - p.x) * heading.x + (o.y - p.y) * heading.y > 0);
+  if (marker) {
+    return { type: 'DRIBBLE', angle: Math.atan2(b.y - marker.y, b.x - marker.x), power: SHIELD_POWER, lofted: false };
+  }
+
+  // Carry the ball towards goal, swerving round opponents in the way and off the touchlines
+  const swerve = avoid(p, heading, opponents, LANE_LENGTH, AVOID_CLEARANCE);
+  let angle = Math.atan2(heading.y + swerve.y * DRIBBLE_SWERVE, heading.x + swerve.x * DRIBBLE_SWERVE);
+  if (b.y < 80 && Math.sin(angle) < 0) angle += 0.6;
+  if (b.y > FIELD_HEIGHT - 80 && Math.sin(angle) > 0) angle -= 0.6;
+  return { type: 'DRIBBLE', angle, power: DRIBBLE_POWER, lofted: false };
+}
+
+// What behaviour tree conditions and actions know about one field player
+interface BehaviourContext {
+  observation: TeamObservation;
+  player: Player;
+  slot: FormationSlot;
+  chaserId: string | null;
+  receiving: PassInFlight | null; // Our pass in flight, if any
+  ballPath: Vector[];             // Where the ball will be over the next ticks
+}
+
+// Behaviour tree actions that take up a fixed kind of position
+const ACTION_POSITIONING: Record<'COVER' | 'MARK' | 'MAKE_RUN' | 'HOLD', StrategyPositioning> = {
+  COVER: { anchor: 'COVER', depth: 0, width: 160, effort: 0.8, pressDistance: 0 },
+  MARK: { anchor: 'MARK', depth: 0, width: 0, effort: 0.9, pressDistance: 0 },
+  MAKE_RUN: { anchor: 'BALL', depth: 200, width: 600, effort: 1, pressDistance: 0 },
+  HOLD: { anchor: 'HOME', depth: 0, width: 600, effort: 0.4, pressDistance: 0 }
+};
+
+// Target for a positioning, kept off the touchlines
+const positionFor = ({ observation, player, slot }: BehaviourContext, pos: StrategyPositioning, effort?: number): PlayerIntent => {
+  const { state, side, opponents, attacksLeft } = observation;
+  const target = getPositioningTarget(pos, {
+    player, ball: state.ball, opponents, slot,
+    dir: attacksLeft ? -1 : 1,
+    lineDepth: SUPPORT_DEPTH[player.position as Exclude<FormationPosition, 'GK'>],
+    ownGoal: { x: attacksLeft ? FIELD_WIDTH : 0, y: FIELD_HEIGHT/2 },
+    inPossession: state.lastTouch?.team === side,
+    field: { width: FIELD_WIDTH, height: FIELD_HEIGHT }
+  });
+  return {
+    x: Math.max(80, Math.min(FIELD_WIDTH-80, target.x)),
+    y: Math.max(80, Math.min(FIELD_HEIGHT-80, target.y)),
+    effort: effort ?? target.effort,
+    arrive: true
+  };
+};
+
+// Where to run to meet the ball on its way, at the player's top speed
+const leadBall = ({ observation, player, ballPath }: BehaviourContext) =>
+  pursue(player, getTopSpeed(player.attributes, player.stamina), observation.state.ball, ballPath);
+
+const ballDistance = ({ observation, player }: BehaviourContext) =>
+  Math.hypot(observation.state.ball.x - player.x, observation.state.ball.y - player.y);
+
+const goalDifference = ({ observation: { state, side } }: BehaviourContext) =>
+  state.score[side] - state.score[opponentOf(side)];
+
+const BEHAVIOUR_VOCABULARY: BehaviourVocabulary<BehaviourContext, PlayerIntent> = {
+  conditions: {
+    CHASER: ctx => ctx.player.id === ctx.chaserId,
+    HAS_BALL: ({ observation, player }) => observation.state.possession?.playerId === player.id,
+    UNDER_PRESSURE: ({ observation, player }, node) =>
+      observation.opponents.some(o => Math.hypot(o.x - player.x, o.y - player.y) < (node.distance ?? PRESSURE_RADIUS)),
+    BALL_WITHIN: (ctx, node) => ballDistance(ctx) < (node.distance ?? 0),
+    IN_PRESS_RANGE: ctx => ballDistance(ctx) < getStrategy(ctx.observation, ctx.player).positioning.pressDistance,
+    TEAM_HAS_BALL: ({ observation: { state, side } }) => state.lastTouch?.team === side,
+    KEEPER_HOLDING: ({ observation }) => !!observation.state.keeperHold,
+    SET_PIECE: ({ observation }) => !!observation.state.setPiece,
+    TEAMMATE_OPEN: ({ observation: { team, opponents }, player }, node) => team.some(t =>
+      t.id !== player.id && t.role !== 'GK' &&
+      opponents.every(o => Math.hypot(o.x - t.x, o.y - t.y) >= (node.distance ?? PRESSURE_RADIUS))),
+    BALL_IN_OWN_HALF: ({ observation: { state, attacksLeft } }) =>
+      attacksLeft ? state.ball.x > FIELD_WIDTH/2 : state.ball.x < FIELD_WIDTH/2,
+    WINNING: ctx => goalDifference(ctx) > 0,
+    LOSING: ctx => goalDifference(ctx) < 0,
+    DRAWING: ctx => goalDifference(ctx) === 0
+  },
+  actions: {
+    // Run to where the pass was aimed until the ball is close, then cut it off
+    CHASE: (ctx, node) => {
+      const pass = ctx.receiving?.targetId === ctx.player.id && ballDistance(ctx) > PRESSURE_RADIUS ? ctx.receiving : null;
+      const { x, y } = pass ?? leadBall(ctx);
+      return { x, y, effort: node.effort ?? 1 };
+    },
+    PRESS: (ctx, node) => ({ ...leadBall(ctx), effort: node.effort ?? 1 }),
+    // Stand between the ball and the opponent nearest it
+    SHIELD: ({ observation: { state, opponents } }, node) => {
+      const b = state.ball;
+      const opponent = opponents.reduce<Player | null>((best, o) =>
+        !best || Math.hypot(o.x - b.x, o.y - b.y) < Math.hypot(best.x - b.x, best.y - b.y) ? o : best, null);
+      const d = opponent ? Math.hypot(opponent.x - b.x, opponent.y - b.y) : 0;
+      if (!opponent || d === 0) return { x: b.x, y: b.y, effort: node.effort ?? 1 };
+      const gap = PLAYER_RADIUS + BALL_RADIUS;
+      return { x: b.x + (opponent.x - b.x) / d * gap, y: b.y + (opponent.y - b.y) / d * gap, effort: node.effort ?? 1, arrive: true };
+    },
+    COVER: (ctx, node) => positionFor(ctx, ACTION_POSITIONING.COVER, node.effort),
+    MARK: (ctx, node) => positionFor(ctx, ACTION_POSITIONING.MARK, node.effort),
+    MAKE_RUN: (ctx, node) => positionFor(ctx, ACTION_POSITIONING.MAKE_RUN, node.effort),
+    HOLD: (ctx, node) => positionFor(ctx, ACTION_POSITIONING.HOLD, node.effort),
+    STRATEGY: (ctx, node) => {
+      const strategy = getStrategy(ctx.observation, ctx.player);
+      const inPossession = ctx.observation.state.lastTouch?.team === ctx.observation.side;
+      return positionFor(ctx, inPossession ? { ...strategy.positioning, ...strategy.inPossession } : strategy.positioning, node.effort);
+    }
+  }
+};
+
+/**
+ * Team controller whose field players each run the behaviour tree; on the ball they play
+ * like the default. Intents carry the path to the action that produced them.
+ */
+export function createBehaviourController(definition: BehaviourTreeDefinition): TeamController {
+  return {
+    id: definition.id,
+    label: definition.label,
+    description: definition.description,
+    behaviour: definition.root,
+
+    observe(observation) {
+      const { state, side, team, formation } = observation;
+      const b = state.ball;
+
+      // The receiver of a pass in flight or our player on the ball goes for it instead of whoever
+      // is nearest; nobody chases a ball a keeper is holding
+      const receiving = state.pass?.team === side ? state.pass : null;
+      const carrier = state.possession?.team === side ? state.possession.playerId : null;
+      let chaserId: string | null = receiving?.targetId ?? carrier;
+      let minDist = Infinity;
+      if (!chaserId && !state.keeperHold) team.forEach(p => {
+        if (p.role !== 'GK') {
+          const d = Math.hypot(b.x - p.x, b.y - p.y);
+          if (d < minDist) { minDist = d; chaserId = p.id; }
+        }
+      });
+
+      const ballPath = predictBallTrajectory(b.x, b.y, b.vx, b.vy, PURSUIT_TICKS / TICK_RATE, 1 / TICK_RATE, b.spin, {
+        z: b.z, vz: b.vz, physics: observation.physics, conditions: observation.conditions,
+        lastTouch: state.lastTouch?.team ?? null, sidesSwitched: state.sidesSwitched
+      }).predictedPath;
+
+      const intents: Record<string, PlayerIntent> = {};
+      team.forEach((player, idx) => {
+        if (player.role === 'GK') return;
+        const ctx = { observation, player, slot: formation.slots[idx], chaserId, receiving, ballPath };
+        const run = runBehaviourTree(definition.root, ctx, BEHAVIOUR_VOCABULARY);
+        if (run) intents[player.id] = { ...run.result, node: run.path };
+      });
+      return intents;
+    },
+
+    kick: chooseKick
+  };
+}
+
+// The built-in team AI
+export const DEFAULT_CONTROLLER = createBehaviourController(DEFAULT_BEHAVIOUR);
+
+export interface MatchEngineOptions {
+  seed?: number;
+  clock?: Partial<MatchClockConfig>;
+  rules?: Partial<MatchRules>;
+  teamSize?: TeamSize;
+  formations?: Partial<Record<TeamSide, string>>; // Formation ids; unknown ids fall back to the first for the size
+  squads?: Partial<Record<TeamSide, Array<Partial<PlayerAttributes>>>>; // Attribute overrides by formation slot
+  strategies?: StrategyDefinition[]; // User strategies added to the built-in ones
+  controllers?: Partial<Record<TeamSide, TeamController>>; // Team AI for each side (default DEFAULT_CONTROLLER)
+  conditions?: MatchConditions; // Wind and pitch the ball is played in (default calm)
+  physics?: PhysicsProfile;     // How the ball moves (default DEFAULT_PHYSICS)
+}
+
+export class MatchEngine {
+  readonly seed: number;
+  readonly clockConfig: MatchClockConfig;
+  readonly rules: MatchRules;
+  readonly teamSize: TeamSize;
+  readonly formations: Record<TeamSide, Formation>;
+  readonly squads: Partial<Record<TeamSide, Array<Partial<PlayerAttributes>>>>;
+  readonly userStrategies: StrategyDefinition[];
+  readonly strategyRegistry: StrategyRegistry;
+  readonly controllers: Record<TeamSide, TeamController>;
+  readonly conditions: MatchConditions;
+  readonly physics: PhysicsProfile;
+  private rng: SeededRandom;
+  private state: MatchState;
+
+  constructor(options: MatchEngineOptions = {}) {
+    this.seed = options.seed ?? createSeed();
+    this.clockConfig = { ...DEFAULT_MATCH_CLOCK, ...options.clock };
+    this.rules = { ...DEFAULT_MATCH_RULES, ...options.rules };
+    this.teamSize = options.teamSize ?? DEFAULT_TEAM_SIZE;
+    this.formations = {
+      red: getFormation(options.formations?.red, this.teamSize),
+      blue: getFormation(options.formations?.blue, this.teamSize)
+    };
+    this.squads = options.squads ?? {};
+    this.userStrategies = options.strategies ?? [];
+    this.strategyRegistry = createStrategyRegistry(this.userStrategies);
+    this.controllers = {
+      red: options.controllers?.red ?? DEFAULT_CONTROLLER,
+      blue: options.controllers?.blue ?? DEFAULT_CONTROLLER
+    };
+    this.conditions = options.conditions ?? CALM_CONDITIONS;
+    this.physics = options.physics ?? DEFAULT_PHYSICS;
+    this.rng = new SeededRandom(this.seed);
+    this.state = this.createKickoffState();
+  }
+
+  /**
+   * Restart the match from kickoff with the same seed
+   */
+  reset(): MatchState {
+    this.rng = new SeededRandom(this.seed);
+    this.state = this.createKickoffState();
+    return this.state;
+  }
+
+  /**
+   * Current engine state. The returned object is live and mutated by step();
+   * copy anything that needs to outlive the next step.
+   */
+  getState(): MatchState {
+    return this.state;
+  }
+
+  /**
+   * Advance the simulation by dt ticks. Callers should always pass the fixed
+   * TICK_DT so results do not depend on frame rate.
+   */
+  step(dt: number, inputs: MatchInputs = {}): MatchState {
+    const state = this.state;
+    state.events = [];
+    if (state.matchState === STATE.FINISHED) return state;
+    state.tick++;
+
+    inputs.sectorAssignments?.forEach(sectorId => this.assignPlayerToSector(sectorId));
+    // Unknown strategy ids are ignored and the player keeps their current one
+    Object.entries(inputs.strategies ?? {}).forEach(([playerId, strategy]) => {
+      if (this.strategyRegistry[strategy]) state.strategies.set(playerId, strategy);
+    });
+
+    this.advanceClock(dt);
+    if (state.clock.period === 'FULL_TIME') return state;
+
+    // -- GOAL RESET SEQUENCE (ANIMATED) --
+    if (state.matchState === STATE.RESETTING && state.resetTarget) {
+      const target = state.resetTarget;
+      const alpha = 1 - Math.pow(1 - RESET_LERP, dt);
+      state.ball.x = lerp(state.ball.x, target.ball.x, alpha);
+      state.ball.y = lerp(state.ball.y, target.ball.y, alpha);
+      state.ball.z = lerp(state.ball.z, 0, alpha);
+      state.ball.vx = 0;
+      state.ball.vy = 0;
+      state.ball.vz = 0;
+      state.ball.spin = 0;
+
+      (['red', 'blue'] as const).forEach(team => {
+        state[team].forEach((p, i) => {
+          if (target.resetPlayers) {
+            p.x = lerp(p.x, target[team][i].x, alpha);
+            p.y = lerp(p.y, target[team][i].y, alpha);
+          }
+          p.vx = 0;
+          p.vy = 0;
+          p.stamina = Math.min(1, p.stamina + STOPPAGE_RECOVERY * dt);
+        });
+      });
+
+      state.resetTimer -= dt;
+      if (state.resetTimer <= 0) {
+        state.matchState = STATE.PLAYING;
+        state.resetTarget = null;
+        if (isBreakPeriod(state.clock.period)) {
+          this.enterPeriod(getNextPeriod(state.clock.period, this.clockConfig, state.score));
+        }
+        state.events.push({ type: 'KICKOFF' });
+      }
+      return state;
+    }
+
+    // -- NORMAL PLAY --
+    const b = state.ball;
+
+    // Dead ball: hold it on the spot until the taker plays it
+    if (state.setPiece) {
+      b.x = state.setPiece.x; b.y = state.setPiece.y; b.z = 0; b.vx = 0; b.vy = 0; b.vz = 0; b.spin = 0;
+      state.setPiece.timer -= dt;
+      if (state.setPiece.timer <= 0) state.setPiece = null;
+    }
+
+    // Goalkeeper holding the ball: it stays in their hands until they release it
+    const hold = state.keeperHold;
+    if (hold) {
+      const keeper = state[hold.team].find(p => p.id === hold.playerId)!;
+      const out = getDefendedSide(hold.team, state.sidesSwitched) === 'left' ? 1 : -1;
+      b.x = keeper.x + out * PLAYER_RADIUS; b.y = keeper.y; b.z = 0; b.vx = 0; b.vy = 0; b.vz = 0; b.spin = 0;
+      hold.timer -= dt;
+      if (hold.timer <= 0) this.distribute(keeper, hold.team);
+    }
+
+    const next = advanceBall({ ...b }, dt, this.physics, this.conditions);
+    const nextX = next.x;
+    const nextY = next.y;
+
+    // Bounds Check: the same call the trajectory predictor makes
+    const out = getOutOfPlay(b, next, state.lastTouch?.team ?? null, state.sidesSwitched);
+    if (out?.type === 'GOAL') { this.triggerGoal(out.team); }
+    else if (out) {
+      // Between the posts but not a goal means it went over; judged where it crossed the line
+      const overGoalLine = nextX < 0 || nextX > FIELD_WIDTH;
+      this.resolveShot(overGoalLine && isInGoalMouth(out.y) ? 'OVER' : 'WIDE');
+      const goalLineX = nextX < 0 ? 0 : FIELD_WIDTH;
+      if (out.type === 'CORNER') {
+        this.triggerOut('CORNER', out.team, Math.abs(goalLineX - 20), out.y < FIELD_HEIGHT/2 ? 20 : FIELD_HEIGHT-20);
+      }
+      else if (out.type === 'GOAL KICK') { this.triggerOut('GOAL KICK', out.team, Math.abs(goalLineX - 50), FIELD_HEIGHT/2); }
+      else { this.triggerOut('THROW IN', out.team, Math.max(20, Math.min(FIELD_WIDTH-20, b.x)), nextY < 0 ? 20 : FIELD_HEIGHT-20); }
+    }
+    else {
+      // Apply movement only if safe
+      Object.assign(b, next);
+    }
+
+    // The carrier loses control of a ball that runs away from them or gets into the air
+    this.getCarrier();
+
+    // The team moved second gets the last touch on a contested ball, so take turns at it
+    if (state.tick % 2 === 0) {
+      this.processTeam(state.red, true, state.blue, dt);
+      this.processTeam(state.blue, false, state.red, dt);
+    } else {
+      this.processTeam(state.blue, false, state.red, dt);
+      this.processTeam(state.red, true, state.blue, dt);
+    }
+
+    return state;
+  }
+
+  /**
+   * Lock the best red candidate to a tactical sector.
+   * Returns the locked player's id, or null if nobody was available.
+   */
+  assignPlayerToSector(sectorId: number): string | null {
+    const { red, ball, lockedPlayers } = this.state;
+    let chaserId: string | null = null;
+    let minDist = Infinity;
+    red.forEach(p => {
+      if (p.role !== 'GK') {
+        const d = Math.hypot(ball.x - p.x, ball.y - p.y);
+        if (d < minDist) { minDist = d; chaserId = p.id; }
+      }
+    });
+
+    // Find candidate closest to sector center
+    let candidateId: string | null = null;
+    let minSecDist = Infinity;
+    const { x: cx, y: cy } = getSectorCenter(sectorId);
+
+    red.forEach(p => {
+      if (p.id !== chaserId && p.role !== 'GK' && !lockedPlayers.has(p.id)) {
+        const d = Math.hypot(cx - p.x, cy - p.y);
+        if (d < minSecDist) { minSecDist = d; candidateId = p.id; }
+      }
+    });
+
+    if (candidateId) {
+      lockedPlayers.set(candidateId, {
+        targetSector: sectorId,
+        timer: TACTICAL_LOCK_DURATION
+      });
+      this.state.events.push({ type: 'LOCK', playerId: candidateId, sectorId });
+    }
+    return candidateId;
+  }
+
+  // Kickoff line-up from the team's formation, mirrored for whichever end it defends
+  private initTeamPositions(isRed: boolean, sidesSwitched: boolean): Player[] {
+    const defendsRight = isRed !== sidesSwitched;
+    const team: TeamSide = isRed ? 'red' : 'blue';
+    const formation = this.formations[team];
+    return formation.slots.map((slot, i) => {
+      const fromGoal = Math.max(20, Math.min(FIELD_WIDTH/2 - PLAYER_RADIUS, slot.depth * FIELD_WIDTH/2 + this.rng.range(-30, 30)));
+      return {
+        id: isRed ? `r${i}` : `b${i}`,
+        x: defendsRight ? FIELD_WIDTH - fromGoal : fromGoal,
+        y: slot.width * FIELD_HEIGHT,
+        vx: 0, vy: 0,
+        role: slot.position === 'GK' ? 'GK' : 'FIELD',
+        position: slot.position,
+        attributes: createPlayerAttributes(slot, this.squads[team]?.[i]),
+        stamina: 1
+      };
+    });
+  }
+
+  private createKickoffState(): MatchState {
+    const startAngle = this.rng.next() * Math.PI * 2;
+    const startSpeed = this.rng.range(2, 4);
+
+    return {
+      tick: 0,
+      ball: {
+        x: FIELD_WIDTH/2, y: FIELD_HEIGHT/2, z: 0,
+        vx: Math.cos(startAngle) * startSpeed, vy: Math.sin(startAngle) * startSpeed, vz: 0,
+        spin: 0
+      },
+      red: this.initTeamPositions(true, false),
+      blue: this.initTeamPositions(false, false),
+      score: { red: 0, blue: 0 },
+      clock: createPeriodClock('FIRST_HALF', this.clockConfig),
+      sidesSwitched: false,
+      matchState: STATE.PLAYING,
+      resetTarget: null,
+      resetTimer: 0,
+      lockedPlayers: new Map(),
+      strategies: new Map(),
+      activeNodes: new Map(),
+      kickCooldowns: new Map(),
+      lastTouch: null,
+      setPiece: null,
+      offsideCheck: null,
+      pass: null,
+      possession: null,
+      keeperHold: null,
+      dives: new Map(),
+      cards: [],
+      shots: [],
+      events: []
+    };
+  }
+
+  // Reset for Goals (Hard Reset)
+  private triggerGoal(team: TeamSide) {
+    const state = this.state;
+    state.score = { ...state.score, [team]: state.score[team] + 1 };
+    state.matchState = STATE.RESETTING;
+    state.resetTimer = RESET_DURATION;
+    state.resetTarget = {
+      ball: { x: FIELD_WIDTH/2, y: FIELD_HEIGHT/2 },
+      red: this.initTeamPositions(true, state.sidesSwitched),
+      blue: this.initTeamPositions(false, state.sidesSwitched),
+      resetPlayers: true
+    };
+
+    state.lockedPlayers.clear();
+    state.kickCooldowns.clear();
+    state.lastTouch = null;
+    state.setPiece = null;
+    state.offsideCheck = null;
+    state.pass = null;
+    state.possession = null;
+    state.keeperHold = null;
+    state.dives.clear();
+    this.resolveShot('GOAL');
+    state.events.push({ type: 'GOAL', team, score: state.score });
+  }
+
+  // Run the clock for playing periods; breaks are timed by the reset sequence
+  private advanceClock(dt: number) {
+    const state = this.state;
+    const clock = state.clock;
+    if (clock.periodLength === 0) return;
+
+    clock.periodTick += dt;
+    if (state.matchState !== STATE.PLAYING) clock.stoppageTicks += dt;
+
+    // Time lost to stoppages is added back, rounded up to whole seconds
+    if (clock.addedTicks === null && clock.periodTick >= clock.periodLength) {
+      clock.addedTicks = Math.ceil(clock.stoppageTicks / TICK_RATE) * TICK_RATE;
+      if (clock.addedTicks > 0) {
+        state.events.push({ type: 'ADDED_TIME', seconds: clock.addedTicks / TICK_RATE });
+      }
+    }
+    if (clock.addedTicks !== null && clock.periodTick >= clock.periodLength + clock.addedTicks) {
+      this.enterPeriod(getNextPeriod(clock.period, this.clockConfig, state.score));
+    }
+  }
+
+  private enterPeriod(period: MatchPeriod) {
+    const state = this.state;
+    state.clock = createPeriodClock(period, this.clockConfig, state.clock);
+    state.events.push({ type: 'PERIOD', period });
+    this.resolveShot('SHORT');
+
+    if (period === 'FULL_TIME') {
+      state.matchState = STATE.FINISHED;
+      state.resetTarget = null;
+      state.ball.z = 0;
+      state.ball.vx = 0;
+      state.ball.vy = 0;
+      state.ball.vz = 0;
+      state.ball.spin = 0;
+      [...state.red, ...state.blue].forEach(p => { p.vx = 0; p.vy = 0; });
+      state.lockedPlayers.clear();
+      state.setPiece = null;
+      state.keeperHold = null;
+      return;
+    }
+    if (!isBreakPeriod(period)) return;
+
+    // Teams change ends at half time (and at half time of extra time)
+    if (period !== 'EXTRA_TIME_BREAK') state.sidesSwitched = !state.sidesSwitched;
+
+    state.matchState = STATE.RESETTING;
+    state.resetTimer = this.clockConfig.breakSeconds * TICK_RATE;
+    state.resetTarget = {
+      ball: { x: FIELD_WIDTH/2, y: FIELD_HEIGHT/2 },
+      red: this.initTeamPositions(true, state.sidesSwitched),
+      blue: this.initTeamPositions(false, state.sidesSwitched),
+      resetPlayers: true
+    };
+    state.lockedPlayers.clear();
+    state.kickCooldowns.clear();
+    state.lastTouch = null;
+    state.setPiece = null;
+    state.offsideCheck = null;
+    state.pass = null;
+    state.possession = null;
+    state.keeperHold = null;
+    state.dives.clear();
+  }
+
+  // Handling for Outs
+  private triggerOut(restart: RestartType, team: TeamSide, bx: number, by: number) {
+    const takerId = this.awardSetPiece(restart, team, bx, by);
+    this.state.events.push({ type: 'OUT', restart, team, takerId, x: bx, y: by });
+  }
+
+  /**
+   * Place the ball for a restart and hand it to the nearest player of the awarded team.
+   * Goalkeepers only take goal kicks. Returns the taker's id.
+   */
+  private awardSetPiece(restart: RestartType, team: TeamSide, bx: number, by: number): string {
+    const state = this.state;
+    const ball = state.ball;
+    this.resolveShot('SHORT');
+    ball.x = bx;
+    ball.y = by;
+    ball.z = 0;
+    ball.vx = 0;
+    ball.vy = 0;
+    ball.vz = 0;
+    ball.spin = 0;
+
+    const candidates = state[team].filter(p => (p.role === 'GK') === (restart === 'GOAL KICK'));
+    let taker = candidates[0] ?? state[team][0];
+    candidates.forEach(p => {
+      if (Math.hypot(p.x - bx, p.y - by) < Math.hypot(taker.x - bx, taker.y - by)) taker = p;
+    });
+
+    const { aim, power, loft, shot, receiverId } = this.getRestartKick(restart, team, taker.id, bx, by);
+    state.setPiece = { restart, team, takerId: taker.id, x: bx, y: by, aim, power, loft, shot, receiverId, timer: SET_PIECE_TIMEOUT };
+    state.offsideCheck = null;
+    state.pass = null;
+    state.possession = null;
+    state.keeperHold = null;
+    state.dives.clear();
+
+    // Don't reset players, just clear cooldowns so the taker can play it immediately
+    state.kickCooldowns.clear();
+    return taker.id;
+  }
+
+  // Target, power and loft of the restart kick, always back into the field
+  private getRestartKick(restart: RestartType, team: TeamSide, takerId: string, bx: number, by: number) {
+    const attacksLeft = getDefendedSide(team, this.state.sidesSwitched) === 'right';
+    const dir = attacksLeft ? -1 : 1;
+    const goalX = attacksLeft ? 0 : FIELD_WIDTH;
+    const pass = (x: number, y: number, loft = 0) => ({ aim: { x, y }, power: PASS_POWER, loft, shot: false, receiverId: null });
+    const shot = (y: number) => ({ aim: { x: goalX, y }, power: SHOOT_POWER, loft: 0, shot: true, receiverId: null });
+
+    switch (restart) {
+      case 'CORNER': return pass(attacksLeft ? 120 : FIELD_WIDTH - 120, FIELD_HEIGHT/2, CROSS_LIFT);
+      case 'GOAL KICK': {
+        // Goal kicks go long to a chosen teammate when one is in range
+        const punt = this.choosePunt(takerId, team);
+        if (punt) return { aim: punt.target!, power: punt.power, loft: CROSS_LIFT, shot: false, receiverId: punt.receiverId! };
+        return pass(bx + dir * 300, FIELD_HEIGHT/2, CROSS_LIFT);
+      }
+      case 'THROW IN': return pass(bx + dir * 100, by < FIELD_HEIGHT/2 ? by + 150 : by - 150, THROW_LIFT);
+      case 'PENALTY': return shot(this.rng.next() < 0.5 ? GOAL_TOP + 15 : GOAL_BOTTOM - 15);
+      case 'FREE KICK':
+        if (Math.hypot(goalX - bx, FIELD_HEIGHT/2 - by) < 350) return shot(FIELD_HEIGHT/2 + this.rng.range(-40, 40));
+        return pass(bx + dir * 250, by + (FIELD_HEIGHT/2 - by) * 0.5);
+      default: return pass(bx + dir * 250, by + (FIELD_HEIGHT/2 - by) * 0.5);
+    }
+  }
+
+  // Opponents of the restarting team are held outside the set-piece radius
+  private keepClearOfSetPiece(p: Player) {
+    const setPiece = this.state.setPiece!;
+    const d = Math.hypot(p.x - setPiece.x, p.y - setPiece.y);
+    if (d >= SET_PIECE_DISTANCE) return;
+    const ang = d > 0 ? Math.atan2(p.y - setPiece.y, p.x - setPiece.x) : Math.atan2(FIELD_HEIGHT/2 - setPiece.y, FIELD_WIDTH/2 - setPiece.x);
+    p.x = setPiece.x + Math.cos(ang) * SET_PIECE_DISTANCE;
+    p.y = setPiece.y + Math.sin(ang) * SET_PIECE_DISTANCE;
+    p.vx *= 0.5;
+    p.vy *= 0.5;
+  }
+
+  private takeSetPiece(p: Player) {
+    const state = this.state;
+    const setPiece = state.setPiece!;
+    const distance = Math.hypot(setPiece.aim.x - setPiece.x, setPiece.aim.y - setPiece.y);
+    const error = setPiece.shot ? this.shotError(p, distance, 0) : this.kickError(p);
+    if (setPiece.shot) this.recordShot(p, setPiece.team, setPiece.aim, 0, error, setPiece.restart);
+    const ang = Math.atan2(setPiece.aim.y - setPiece.y, setPiece.aim.x - setPiece.x) + error;
+    const power = setPiece.power * p.attributes.kickPower * getFatigueFactor(p.stamina);
+    state.ball.vx = Math.cos(ang) * power;
+    state.ball.vy = Math.sin(ang) * power;
+    state.ball.vz = setPiece.loft;
+    state.ball.spin = getKickSpin(Math.atan2(state.ball.y - p.y, state.ball.x - p.x), ang, power);
+    state.kickCooldowns.set(p.id, KICK_COOLDOWN);
+    state.lastTouch = { playerId: p.id, team: setPiece.team, tick: state.tick };
+    state.setPiece = null;
+    // There is no offside from corners, goal kicks or throw-ins
+    if (setPiece.restart === 'FREE KICK' || setPiece.restart === 'INDIRECT FREE KICK') this.recordPass(p, setPiece.team);
+    if (setPiece.receiverId) this.playPass(p, setPiece.team, setPiece.receiverId, setPiece.aim);
+  }
+
+  // Send the receiver to meet a pass and announce it
+  private playPass(p: Player, side: TeamSide, receiverId: string, target: { x: number; y: number }) {
+    const state = this.state;
+    state.pass = { team: side, passerId: p.id, targetId: receiverId, tick: state.tick, x: target.x, y: target.y };
+    state.events.push({ type: 'PASS', playerId: p.id, targetId: receiverId, team: side });
+  }
+
+  // Hard running drains stamina in proportion to effort; jogging lets it come back
+  private updateStamina(p: Player, accel: number, speedRatio: number, dt: number) {
+    if (speedRatio < JOG_SPEED) {
+      p.stamina = Math.min(1, p.stamina + JOG_RECOVERY * dt);
+      return;
+    }
+    const effort = accel / (SPRINT_ACCEL * p.attributes.acceleration);
+    p.stamina = Math.max(0, p.stamina - SPRINT_DRAIN * effort * speedRatio * dt);
+  }
+
+  // Long kick to the furthest forward onside teammate within range of the ball
+  private choosePunt(kickerId: string, side: TeamSide): KickIntent | null {
+    const b = this.state.ball;
+    const attacksLeft = getDefendedSide(side, this.state.sidesSwitched) === 'right';
+    const depth = (x: number) => attacksLeft ? -x : x;
+    const offside = new Set(getOffsidePlayerIds(this.state, this.rules, side, kickerId));
+    const candidates = this.state[side].filter(t =>
+      t.id !== kickerId && t.role !== 'GK' && !offside.has(t.id) && Math.hypot(t.x - b.x, t.y - b.y) < PUNT_RANGE);
+    if (candidates.length === 0) return null;
+
+    const t = candidates.reduce((best, c) => depth(c.x) > depth(best.x) ? c : best);
+    const distance = Math.hypot(t.x - b.x, t.y - b.y);
+    return {
+      type: 'PASS',
+      angle: Math.atan2(t.y - b.y, t.x - b.x),
+      power: Math.min(SHOOT_POWER, (distance + PASS_CARRY) / PUNT_CARRY),
+      lofted: true,
+      target: { x: t.x, y: t.y },
+      receiverId: t.id
+    };
+  }
+
+  /**
+   * Where the goalkeeper wants to be: off the line while holding the ball, across to meet a
+   * shot on its way (diving when it is nearly there), out to claim a loose ball in the area,
+   * otherwise on the line from the goal centre to the ball, further off the line as the ball
+   * gets closer to narrow the angle
+   */
+  private getKeeperTarget(p: Player, side: TeamSide, opponents: Player[]) {
+    const state = this.state;
+    const b = state.ball;
+    const defendedSide = getDefendedSide(side, state.sidesSwitched);
+    const goalX = defendedSide === 'left' ? 0 : FIELD_WIDTH;
+    const out = defendedSide === 'left' ? 1 : -1;
+
+    // Holding the ball, step out from the line so it can be released clear of goal
+    if (state.keeperHold?.playerId === p.id) {
+      return { x: goalX + out * GK_MAX_DEPTH, y: Math.max(GOAL_TOP, Math.min(GOAL_BOTTOM, p.y)), accel: GK_ACCEL };
+    }
+    if (state.dives.has(p.id)) return { x: p.x, y: p.y, accel: 0 };
+
+    const save = this.predictSave(p, goalX, out);
+    if (save) {
+      const gap = Math.hypot(save.x - p.x, save.y - p.y);
+      if (save.ticks <= DIVE_WINDOW && gap > PLAYER_RADIUS + BALL_RADIUS) {
+        state.dives.set(p.id, DIVE_TICKS);
+        p.vx = (save.x - p.x) / gap * DIVE_SPEED;
+        p.vy = (save.y - p.y) / gap * DIVE_SPEED;
+        return { x: p.x, y: p.y, accel: 0 };
+      }
+      return { x: save.x, y: save.y, accel: SPRINT_ACCEL };
+    }
+
+    const ballSpeed = Math.hypot(b.vx, b.vy);
+    const keeperDist = Math.hypot(b.x - p.x, b.y - p.y);
+    const closerOpponent = opponents.some(o => Math.hypot(b.x - o.x, b.y - o.y) < keeperDist);
+    if (isInPenaltyArea(b.x, b.y, defendedSide) && ballSpeed < CLAIM_SPEED && !closerOpponent) {
+      return { x: b.x, y: b.y, accel: SPRINT_ACCEL };
+    }
+
+    const dx = b.x - goalX;
+    const dy = b.y - FIELD_HEIGHT/2;
+    const dist = Math.hypot(dx, dy) || 1;
+    const depth = GK_MIN_DEPTH + (GK_MAX_DEPTH - GK_MIN_DEPTH) * Math.max(0, 1 - dist / GK_ADVANCE_RANGE);
+    return {
+      x: goalX + out * Math.max(PLAYER_RADIUS, Math.abs(dx) / dist * depth),
+      y: Math.max(GOAL_TOP, Math.min(GOAL_BOTTOM, FIELD_HEIGHT/2 + dy / dist * depth)),
+      accel: GK_ACCEL
+    };
+  }
+
+  // Where a ball heading for goal will pass the keeper, and in how many ticks
+  private predictSave(p: Player, goalX: number, out: number) {
+    const b = this.state.ball;
+    if (b.vx * out >= 0) return null;
+    const path = predictBallTrajectory(b.x, b.y, b.vx, b.vy, SAVE_LOOKAHEAD / TICK_RATE, 1 / TICK_RATE, b.spin, {
+      z: b.z, vz: b.vz, physics: this.physics, conditions: this.conditions,
+      lastTouch: this.state.lastTouch?.team ?? null, sidesSwitched: this.state.sidesSwitched
+    }).predictedPath;
+    const i = path.findIndex(pt => (pt.x - goalX) * out <= (p.x - goalX) * out);
+    if (i < 0) return null;
+    const { x, y } = path[i];
+    // Wide of the posts it can be left to go out
+    if (y < GOAL_TOP - DIVE_REACH || y > GOAL_BOTTOM + DIVE_REACH) return null;
+    return { x, y, ticks: i + 1 };
+  }
+
+  /**
+   * Goalkeeper gets to the ball from inside their own area: catch it if it is slow enough,
+   * otherwise parry it away from goal towards the nearer touchline
+   */
+  private keeperTouch(p: Player, side: TeamSide, diving: boolean) {
+    const state = this.state;
+    const b = state.ball;
+    const defendedSide = getDefendedSide(side, state.sidesSwitched);
+    const out = defendedSide === 'left' ? 1 : -1;
+    const speed = Math.hypot(b.vx, b.vy);
+    const caught = speed < (diving ? CATCH_SPEED / 2 : CATCH_SPEED);
+
+    // Catching a ball that has left the area is handling
+    if (caught && !isInPenaltyArea(b.x, b.y, defendedSide)) {
+      this.callFoul('HANDLING', p, side, b.x, b.y, true, null, 0);
+      return;
+    }
+
+    const shot = state.shots[state.shots.length - 1];
+    const saved = shot?.outcome === null && shot.team !== side;
+    this.resolveShot(saved ? 'SAVED' : 'SHORT');
+
+    if (caught) {
+      b.vx = 0; b.vy = 0; b.vz = 0;
+      state.keeperHold = { playerId: p.id, team: side, timer: HOLD_TICKS };
+      state.offsideCheck = null;
+    } else {
+      const ang = Math.atan2(b.y < FIELD_HEIGHT/2 ? -1 : 1, out);
+      b.vx = Math.cos(ang) * speed * PARRY_KEEP;
+      b.vy = Math.sin(ang) * speed * PARRY_KEEP;
+    }
+    b.spin = 0;
+    state.pass = null;
+    state.possession = null;
+    state.kickCooldowns.set(p.id, KICK_COOLDOWN);
+    state.lastTouch = { playerId: p.id, team: side, tick: state.tick };
+    if (saved) state.events.push({ type: 'SAVE', playerId: p.id, team: side, caught });
+  }
+
+  /**
+   * Goalkeeper releases a held ball: thrown to the best pass on,
+   * otherwise kicked long to the furthest forward teammate in range
+   */
+  private distribute(keeper: Player, side: TeamSide) {
+    const state = this.state;
+    const b = state.ball;
+    state.keeperHold = null;
+
+    const pass = choosePass(this.observe(side), keeper)?.choice;
+    const choice = pass ?? this.choosePunt(keeper.id, side);
+    if (!choice) return;
+
+    const ang = choice.angle + this.kickError(keeper);
+    const power = choice.power * keeper.attributes.kickPower * getFatigueFactor(keeper.stamina);
+    b.vx = Math.cos(ang) * power;
+    b.vy = Math.sin(ang) * power;
+    b.vz = !pass ? CROSS_LIFT : pass.lofted ? LOB_LIFT : 0;
+    state.kickCooldowns.set(keeper.id, KICK_COOLDOWN);
+    state.lastTouch = { playerId: keeper.id, team: side, tick: state.tick };
+    this.recordPass(keeper, side);
+    this.playPass(keeper, side, choice.receiverId!, choice.target!);
+  }
+
+  // 0 when no opponent is near the player, rising to 1 with an opponent in contact
+  private getPressure(p: Player, opponents: Player[]) {
+    const closest = Math.min(...opponents.map(o => Math.hypot(o.x - p.x, o.y - p.y)));
+    return Math.max(0, Math.min(1, (PRESSURE_RADIUS - closest) / (PRESSURE_RADIUS - PLAYER_RADIUS * 2)));
+  }
+
+  // Shots go further astray from distance, under pressure and from less accurate players
+  private shotError(p: Player, distance: number, pressure: number) {
+    const spread = (1 - p.attributes.accuracy) * MAX_KICK_ERROR
+      + SHOT_DISTANCE_ERROR * distance / SHOOT_RANGE
+      + SHOT_PRESSURE_ERROR * pressure;
+    return spread * this.rng.range(-1, 1);
+  }
+
+  // Log a shot; its outcome is filled in by resolveShot
+  private recordShot(p: Player, side: TeamSide, target: { x: number; y: number }, pressure: number, error: number, restart: RestartType | null) {
+    const state = this.state;
+    const b = state.ball;
+    this.resolveShot('SHORT');
+    state.shots.push({
+      tick: state.tick,
+      clock: formatMatchClock(state.clock),
+      playerId: p.id,
+      team: side,
+      restart,
+      x: b.x,
+      y: b.y,
+      target,
+      distance: Math.hypot(target.x - b.x, target.y - b.y),
+      pressure,
+      error,
+      outcome: null
+    });
+  }
+
+  // Settle the shot still in flight, if there is one
+  private resolveShot(outcome: ShotOutcome) {
+    const shot = this.state.shots[this.state.shots.length - 1];
+    if (shot && shot.outcome === null) shot.outcome = outcome;
+  }
+
+  // Random deviation from the intended direction of a struck ball
+  private kickError(p: Player) {
+    return (1 - p.attributes.accuracy) * MAX_KICK_ERROR * this.rng.range(-1, 1);
+  }
+
+  /**
+   * Close control: knock the ball on just ahead of the carrier in the chosen direction. Faster
+   * carriers push it further and touch it less often, which leaves it easier to nick off them.
+   */
+  private controlTouch(p: Player, side: TeamSide, angle: number, power: number) {
+    const state = this.state;
+    const b = state.ball;
+    const dx = Math.cos(angle);
+    const dy = Math.sin(angle);
+    const along = Math.max(0, p.vx * dx + p.vy * dy);
+    const pace = along * TOUCH_LEAD + power * TOUCH_KNOCK;
+    b.vx = dx * pace; b.vy = dy * pace; b.vz = 0; b.spin = 0;
+
+    const speedRatio = Math.min(1, Math.hypot(p.vx, p.vy) / getTopSpeed(p.attributes));
+    state.kickCooldowns.set(p.id, Math.round(MIN_TOUCH_TICKS + (MAX_TOUCH_TICKS - MIN_TOUCH_TICKS) * speedRatio));
+    if (state.possession?.playerId !== p.id) state.possession = { playerId: p.id, team: side, tick: state.tick };
+  }
+
+  /**
+   * Player with the ball under close control, or null. Control is lost once the ball gets into
+   * the air or runs away from them, or when the carrier is no longer on the pitch.
+   */
+  private getCarrier(): Player | null {
+    const state = this.state;
+    const b = state.ball;
+    const possession = state.possession;
+    if (!possession) return null;
+    const carrier = [...state.red, ...state.blue].find(p => p.id === possession.playerId);
+    if (carrier && b.z <= FOOT_HEIGHT && Math.hypot(b.x - carrier.x, b.y - carrier.y) <= LOSE_CONTROL_RANGE) return carrier;
+    state.possession = null;
+    return null;
+  }
+
+  /**
+   * Opponent reaching a ball under close control tries to win it. The chance drops the more
+   * the carrier shields it, standing between the tackler and the ball. A won tackle knocks the
+   * ball loose; either way the loser needs a moment before they can play it.
+   */
+  private tackle(p: Player, side: TeamSide, carrier: Player) {
+    const state = this.state;
+    const b = state.ball;
+    const toBall = Math.atan2(b.y - carrier.y, b.x - carrier.x);
+    const toTackler = Math.atan2(p.y - carrier.y, p.x - carrier.x);
+    const shield = Math.max(0, -Math.cos(toBall - toTackler));
+    const won = this.rng.next() < TACKLE_CHANCE * (1 - SHIELD_PROTECTION * shield);
+    state.events.push({ type: 'TACKLE', playerId: p.id, victimId: carrier.id, team: side, won });
+
+    if (!won) {
+      state.kickCooldowns.set(p.id, TACKLE_RECOVERY);
+      return;
+    }
+    const ang = Math.atan2(b.y - p.y, b.x - p.x);
+    b.vx = Math.cos(ang) * TACKLE_POWER; b.vy = Math.sin(ang) * TACKLE_POWER; b.spin = 0;
+    state.kickCooldowns.set(carrier.id, TACKLE_RECOVERY);
+    state.kickCooldowns.set(p.id, KICK_COOLDOWN);
+    state.possession = null;
+    state.pass = null;
+    state.lastTouch = { playerId: p.id, team: side, tick: state.tick };
+    this.recordPass(p, side);
+  }
+
+  /**
+   * Remember which teammates are offside at the moment `passer` plays the ball.
+   * Attackers are offside in the opponents' half when they are beyond both the ball
+   * and the second-last opponent; level is onside.
+   */
+  private recordPass(passer: Player, side: TeamSide) {
+    const state = this.state;
+    if (!this.rules.offside) { state.offsideCheck = null; return; }
+
+    state.offsideCheck = {
+      team: side,
+      passerId: passer.id,
+      tick: state.tick,
+      playerIds: getOffsidePlayerIds(state, this.rules, side, passer.id)
+    };
+  }
+
+  // An attacker from the last offside check touched the ball: indirect free kick where it happened
+  private callOffside(p: Player, side: TeamSide) {
+    const awarded = opponentOf(side);
+    const spot = clampToField(p.x, p.y);
+    this.awardSetPiece('INDIRECT FREE KICK', awarded, spot.x, spot.y);
+    this.state.events.push({ type: 'OFFSIDE', playerId: p.id, team: awarded, x: spot.x, y: spot.y });
+  }
+
+  /**
+   * Decide whether contact from `p` into an opponent is a foul, and call it if so
+   */
+  private checkContactFoul(p: Player, victim: Player, side: TeamSide, carrierId: string | null): boolean {
+    const d = Math.hypot(victim.x - p.x, victim.y - p.y) || 1;
+    const nx = (victim.x - p.x) / d;
+    const ny = (victim.y - p.y) / d;
+    const closing = (p.vx - victim.vx) * nx + (p.vy - victim.vy) * ny;
+    if (closing <= 0) return false;
+
+    // From behind: the victim is running away from the player making contact
+    const victimSpeed = Math.hypot(victim.vx, victim.vy);
+    const fromBehind = victimSpeed > 1 && (victim.vx * nx + victim.vy * ny) / victimSpeed > 0.5;
+    const onCarrier = victim.id === carrierId;
+
+    let foul: FoulType | null = null;
+    if (onCarrier && fromBehind && closing > FROM_BEHIND_SPEED) foul = 'FROM_BEHIND';
+    else if (closing > CHARGE_SPEED && (onCarrier || fromBehind)) foul = 'CHARGE';
+    if (!foul) return false;
+
+    // Fouls on the ball carrier are direct; off-the-ball fouls give an indirect free kick
+    this.callFoul(foul, p, side, victim.x, victim.y, onCarrier, victim.id, closing);
+    return true;
+  }
+
+  private callFoul(
+    foul: FoulType,
+    offender: Player,
+    side: TeamSide,
+    fx: number,
+    fy: number,
+    direct: boolean,
+    victimId: string | null,
+    severity: number
+  ) {
+    const state = this.state;
+    const awarded = opponentOf(side);
+    const ownSide = getDefendedSide(side, state.sidesSwitched);
+
+    let restart: RestartType = direct ? 'FREE KICK' : 'INDIRECT FREE KICK';
+    let spot = clampToField(fx, fy);
+    if (direct && isInPenaltyArea(fx, fy, ownSide)) {
+      restart = 'PENALTY';
+      spot = { x: ownSide === 'left' ? PENALTY_SPOT_DISTANCE : FIELD_WIDTH - PENALTY_SPOT_DISTANCE, y: FIELD_HEIGHT/2 };
+    }
+
+    this.awardSetPiece(restart, awarded, spot.x, spot.y);
+    state.events.push({ type: 'FOUL', foul, playerId: offender.id, victimId, restart, team: awarded, x: spot.x, y: spot.y });
+
+    // Cards are logged only; players are not sent off
+    let card: 'YELLOW' | 'RED' | null = null;
+    if (severity > VIOLENT_SPEED) card = 'RED';
+    else if (severity > RECKLESS_SPEED || foul === 'HANDLING') card = 'YELLOW';
+    if (!card) return;
+
+    const book = (color: 'YELLOW' | 'RED') => {
+      state.cards.push({ tick: state.tick, clock: formatMatchClock(state.clock), playerId: offender.id, team: side, card: color, foul });
+      state.events.push({ type: 'CARD', card: color, playerId: offender.id, team: side });
+    };
+    const alreadyBooked = state.cards.some(c => c.playerId === offender.id && c.card === 'YELLOW');
+    book(card);
+    if (card === 'YELLOW' && alreadyBooked) book('RED'); // Second yellow
+  }
+
+  // What the side's controller gets to see
+  private observe(side: TeamSide): TeamObservation {
+    const state = this.state;
+    return {
+      state,
+      side,
+      team: state[side],
+      opponents: state[opponentOf(side)],
+      attacksLeft: getTeamAttacking('left', state.sidesSwitched) === side,
+      formation: this.formations[side],
+      rules: this.rules,
+      strategies: this.strategyRegistry,
+      conditions: this.conditions,
+      physics: this.physics
+    };
+  }
+
+  private processTeam(team: Player[], isRed: boolean, opponents: Player[], dt: number) {
+    const { ball: b, kickCooldowns, lockedPlayers } = this.state;
+    const side: TeamSide = isRed ? 'red' : 'blue';
+    const attacksLeft = getTeamAttacking('left', this.state.sidesSwitched) === side;
+
+    kickCooldowns.forEach((val, key) => {
+      if (key.startsWith(isRed ? 'r' : 'b')) {
+        if (val > 0) kickCooldowns.set(key, val - dt);
+        else kickCooldowns.delete(key);
+      }
+    });
+    this.state.dives.forEach((val, key) => {
+      if (key.startsWith(isRed ? 'r' : 'b')) {
+        if (val > 0) this.state.dives.set(key, val - dt);
+        else this.state.dives.delete(key);
+      }
+    });
+
+    // A pass nobody has reached in time no longer has a receiver
+    const pass = this.state.pass;
+    if (pass && this.state.tick - pass.tick > PASS_TIMEOUT) this.state.pass = null;
+
+    // The team's controller decides where its field players run this tick
+    const controller = this.controllers[side];
+    const observation = this.observe(side);
+    const intents = controller.observe(observation);
+
+    // Player (either team) with the ball at their feet, if any
+    const carrierId = this.state.possession?.playerId ?? null;
+
+    team.forEach(p => {
+      let tx = p.x, ty = p.y;
+      let accel = 0.5;
+      let arriving = false;
+      const setPiece = this.state.setPiece;
+      this.state.activeNodes.delete(p.id);
+
+      if (setPiece?.takerId === p.id) {
+        tx = b.x; ty = b.y;
+        accel = 0.6;
+      }
+      else if (p.role === 'GK') {
+        ({ x: tx, y: ty, accel } = this.getKeeperTarget(p, side, opponents));
+      } else {
+        // --- TACTICAL OVERRIDE (RED ONLY) ---
+        if (isRed && lockedPlayers.has(p.id)) {
+          const lock = lockedPlayers.get(p.id)!;
+
+          // -- DYNAMIC POSITIONING WITHIN SECTOR --
+          const sectorId = lock.targetSector;
+          const sectorW = FIELD_WIDTH / 3;
+          const sectorH = FIELD_HEIGHT / 3;
+          const col = sectorId % 3;
+          const row = Math.floor(sectorId / 3);
+
+          // Bounds of the sector
+          const minX = col * sectorW + 10; // +10 Padding
+          const maxX = (col + 1) * sectorW - 10;
+          const minY = row * sectorH + 10;
+          const maxY = (row + 1) * sectorH - 10;
+
+          // Follow ball projected into this sector, biased towards our goal
+          let idealX = b.x;
+          const idealY = b.y;
+          if (attacksLeft && b.x > p.x) { // Ball is ahead (we are behind)
+            idealX -= 50; // Stand slightly behind ball line
+          } else if (!attacksLeft && b.x < p.x) {
+            idealX += 50;
+          }
+
+          tx = Math.max(minX, Math.min(maxX, idealX));
+          ty = Math.max(minY, Math.min(maxY, idealY));
+
+          lock.timer -= dt;
+          if (lock.timer <= 0) {
+            lockedPlayers.delete(p.id);
+            this.state.events.push({ type: 'LOCK_EXPIRED', playerId: p.id });
+          }
+          accel = SPRINT_ACCEL; // Active tactical movement
+          arriving = true;
+        }
+        else {
+          // Without an intent the player just lets friction stop them
+          const intent = intents[p.id];
+          if (intent?.node) this.state.activeNodes.set(p.id, intent.node);
+          if (intent) {
+            tx = intent.x;
+            ty = intent.y;
+            accel = Math.max(0, Math.min(1, intent.effort)) * SPRINT_ACCEL;
+            arriving = !!intent.arrive;
+          }
+          else accel = 0;
+        }
+      }
+
+      const frictionFactor = Math.pow(BASE_FRICTION, dt);
+      accel *= p.attributes.acceleration;
+      const target = { x: tx, y: ty };
+      const velocity = { x: p.vx, y: p.vy };
+      const steer = arriving
+        ? arrive(p, velocity, target, accel, frictionFactor, ARRIVE_RADIUS)
+        : seek(p, velocity, target, accel, frictionFactor);
+
+      // Field players on the move keep their distance from teammates and swerve round opponents
+      // in the way, except those near the target who are being run at for the ball
+      const dist = Math.hypot(tx - p.x, ty - p.y);
+      if (p.role !== 'GK' && setPiece?.takerId !== p.id && accel > 0 && dist > 0) {
+        const apart = separation(p, team.filter(t => t !== p && t.role !== 'GK'), SEPARATION_RADIUS);
+        const heading = { x: (tx - p.x) / dist, y: (ty - p.y) / dist };
+        const obstacles = opponents.filter(o => Math.hypot(o.x - tx, o.y - ty) > CONTEST_RANGE);
+        const swerve = avoid(p, heading, obstacles, Math.min(AVOID_LOOKAHEAD, dist), AVOID_CLEARANCE);
+        steer.x += (apart.x * SEPARATION_WEIGHT + swerve.x * AVOID_WEIGHT) * accel;
+        steer.y += (apart.y * SEPARATION_WEIGHT + swerve.y * AVOID_WEIGHT) * accel;
+      }
+      const force = limit(steer, accel);
+      p.vx = p.vx * frictionFactor + force.x * dt;
+      p.vy = p.vy * frictionFactor + force.y * dt;
+
+      // Running is capped at the player's top speed; contact below can still push past it
+      const topSpeed = PLAYER_TOP_SPEED * p.attributes.speed * getFatigueFactor(p.stamina);
+      const runSpeed = Math.hypot(p.vx, p.vy);
+      if (runSpeed > topSpeed) {
+        p.vx *= topSpeed / runSpeed;
+        p.vy *= topSpeed / runSpeed;
+      }
+      this.updateStamina(p, Math.hypot(force.x, force.y), Math.min(runSpeed, topSpeed) / topSpeed, dt);
+
+      // A keeper with the ball in their hands is not barged off it
+      const heldBy = this.state.keeperHold?.playerId === p.id;
+      [...team, ...opponents].forEach(other => {
+        if (other.id !== p.id && !heldBy) {
+          const d = Math.hypot(p.x - other.x, p.y - other.y);
+          if (d < PLAYER_RADIUS * 2.2) {
+            // Contact is judged before the push separates the players
+            if (!this.state.setPiece && opponents.includes(other)) {
+              this.checkContactFoul(p, other, side, carrierId);
+            }
+            const pushAng = Math.atan2(p.y - other.y, p.x - other.x);
+            const force = (PLAYER_RADIUS*2.5 - d) * 0.15 * dt;
+            p.vx += Math.cos(pushAng) * force;
+            p.vy += Math.sin(pushAng) * force;
+          }
+        }
+      });
+
+      p.x += p.vx * dt;
+      p.y += p.vy * dt;
+
+      // A foul above may have just stopped play, so re-read the set piece
+      const deadBall = this.state.setPiece;
+      const isPenaltyKeeper = deadBall?.restart === 'PENALTY' && p.role === 'GK';
+      if (deadBall && deadBall.team !== side && !isPenaltyKeeper) this.keepClearOfSetPiece(p);
+
+      const dBall = Math.hypot(b.x - p.x, b.y - p.y);
+      const defendedSide = getDefendedSide(side, this.state.sidesSwitched);
+      // Goalkeepers use their hands only from inside their own area; outside it they play like everyone else
+      const usesHands = p.role === 'GK' && isInPenaltyArea(p.x, p.y, defendedSide);
+      const reach = usesHands ? GK_REACH_HEIGHT : HEAD_HEIGHT;
+      // A ball above the player's reach flies over them; a diving keeper reaches further at full stretch
+      const stretching = (this.state.dives.get(p.id) ?? 0) > DIVE_TICKS - DIVE_STRETCH;
+      const contactRange = PLAYER_RADIUS + BALL_RADIUS + (stretching ? DIVE_REACH : 0);
+      if (dBall < contactRange && b.z < reach && !this.state.keeperHold) {
+        // Players have moved since control was last checked, so check it again
+        const carrier = this.state.possession && this.state.possession.team !== side ? this.getCarrier() : null;
+        // Only the taker may touch a dead ball
+        if (deadBall) {
+          if (deadBall.takerId === p.id) this.takeSetPiece(p);
+        }
+        else if (this.state.offsideCheck?.team === side && this.state.offsideCheck.playerIds.includes(p.id)) {
+          this.callOffside(p, side);
+        }
+        else if (usesHands) {
+          if (!kickCooldowns.has(p.id)) this.keeperTouch(p, side, stretching);
+        }
+        // An opponent's ball under close control has to be won with a tackle
+        else if (carrier) {
+          if (!kickCooldowns.has(p.id)) this.tackle(p, side, carrier);
+        }
+        else if (!kickCooldowns.has(p.id)) {
+          const choice = controller.kick(observation, p);
+          let kickAng = choice.angle;
+          let power = choice.power;
+          const goalX = attacksLeft ? 0 : FIELD_WIDTH;
+          const distToGoal = Math.abs(p.x - goalX);
+
+          // Headers are weaker; on the ground, loft passes over a blocked lane and chip an advancing keeper
+          const heading = b.z > FOOT_HEIGHT;
+          const keeper = opponents.find(o => o.role === 'GK');
+          let lift = 0;
+          if (heading) power = Math.min(power, HEADER_POWER);
+          else if (choice.lofted) lift = LOB_LIFT;
+          else if (choice.type === 'SHOT' && keeper && Math.abs(keeper.x - goalX) > 80 && distToGoal > 150) lift = CHIP_LIFT;
+
+          // A shot still travelling is stopped by whoever touches it next
+          const shot = this.state.shots[this.state.shots.length - 1];
+          if (shot?.outcome === null && shot.playerId !== p.id) {
+            this.resolveShot(shot.team === side ? 'SHORT' : 'BLOCKED');
+          }
+
+          // A dribble along the ground at a pace the player can take in is kept under close control
+          if (choice.type === 'DRIBBLE' && !heading && Math.hypot(b.vx - p.vx, b.vy - p.vy) < CONTROL_SPEED) {
+            this.controlTouch(p, side, choice.angle, choice.power);
+          } else {
+            // Passes and shots are struck, so they can go astray and replace the ball's motion;
+            // other dribbles and headers only redirect it
+            const struck = choice.type !== 'DRIBBLE' && !heading;
+            if (choice.type === 'SHOT') {
+              const pressure = this.getPressure(p, opponents);
+              const error = this.shotError(p, Math.hypot(choice.target!.x - b.x, choice.target!.y - b.y), pressure);
+              this.recordShot(p, side, choice.target!, pressure, error, null);
+              kickAng += error;
+            }
+            else if (choice.type !== 'DRIBBLE') kickAng += this.kickError(p);
+            power *= p.attributes.kickPower * getFatigueFactor(p.stamina);
+
+            if (struck) { b.vx = 0; b.vy = 0; }
+            b.vx += Math.cos(kickAng) * power;
+            b.vy += Math.sin(kickAng) * power;
+            if (!heading) b.vz = lift;
+            b.spin = heading ? 0 : getKickSpin(Math.atan2(b.y - p.y, b.x - p.x), kickAng, power);
+            kickCooldowns.set(p.id, KICK_COOLDOWN);
+            this.state.possession = null;
+          }
+          this.state.lastTouch = { playerId: p.id, team: side, tick: this.state.tick };
+          this.recordPass(p, side);
+          this.state.pass = null;
+          if (choice.receiverId) this.playPass(p, side, choice.receiverId, choice.target!);
+        }
+      }
+    });
+  }
+}
+
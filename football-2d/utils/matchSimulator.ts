@@ -0,0 +1,321 @@
+// Batch Match Simulator
+// Plays full matches headlessly at max speed and aggregates the results
+
+import { DEFAULT_CONTROLLER, MatchEngine, STATE } from './matchEngine';
+import { TICK_RATE, TICK_DT } from './fixedTimestep';
+import { predictBallTrajectory } from './trajectoryPredictor';
+import { predictBallTrajectoryCustom } from './customTrajectoryPredictor';
+import { DEFAULT_TEAM_SIZE } from './formations';
+import { CALM_CONDITIONS } from './matchConditions';
+import { DEFAULT_PHYSICS } from './physics';
+import { CustomAlgorithmDefinition } from '../types/customAlgorithm';
+import { TeamController } from '../types/controller';
+import { MatchConditions } from '../types/conditions';
+import { PhysicsProfile } from '../types/physics';
+import { MatchState, ShotRecord, TeamSide, TeamSize } from '../types/match';
+
+export const TICKS_PER_SECOND = TICK_RATE;
+export const TICKS_PER_MINUTE = TICKS_PER_SECOND * 60;
+
+// Seconds ahead the algorithm is checked against the engine; in open play someone reaches the
+// ball within a second, so a longer horizon leaves almost no untouched balls to score
+const PREDICTION_HORIZON = 0.25;
+const PREDICTION_SAMPLE_EVERY = 1;   // Ticks between prediction samples
+
+export interface SimulationOptions {
+  matches: number;
+  seed: number;            // Match i is played with seed + i
+  minutes: number;         // Regulation minutes per match (two halves)
+  offside?: boolean;       // Defaults to on
+  teamSize?: TeamSize;     // Players per side, each in its size's default formation
+  algorithm?: CustomAlgorithmDefinition | null;
+  controllers?: Partial<Record<TeamSide, TeamController>>; // Team AI for each side (default DEFAULT_CONTROLLER)
+  conditions?: MatchConditions; // Wind and pitch every match is played in (default calm)
+  physics?: PhysicsProfile;     // How the ball moves, e.g. a custom algorithm's (default DEFAULT_PHYSICS)
+}
+
+export interface PassStats {
+  attempted: number;
+  completed: number;               // Next player to touch the ball was a teammate
+}
+
+export interface TackleStats {
+  attempted: number;
+  won: number;                     // Ball knocked off the carrier
+}
+
+export interface ShotStats {
+  taken: number;
+  onTarget: number;                // Scored or saved
+  scored: number;
+}
+
+export interface MatchResult {
+  seed: number;
+  score: { red: number; blue: number };
+  winner: TeamSide | 'draw';
+  minutes: number;
+  possession: { red: number; blue: number }; // Share of live ticks with the ball at a player's feet or a pass on its way, 0-1
+  passes: Record<TeamSide, PassStats>;
+  tackles: Record<TeamSide, TackleStats>;
+  shots: ShotRecord[];                       // Every shot with its target and outcome
+  predictionError: number | null;            // Mean px error of 0.25s ball predictions nobody touched in between
+}
+
+export interface BatchResult {
+  options: Omit<SimulationOptions, 'algorithm' | 'controllers' | 'conditions' | 'physics'> & {
+    algorithmName: string;
+    controllerNames: Record<TeamSide, string>;
+    conditionsName: string;
+    physicsName: string;
+  };
+  matches: MatchResult[];
+  winRate: { red: number; blue: number; draw: number };
+  averageScore: { red: number; blue: number };
+  goalsPerMinute: number;
+  averagePossession: { red: number; blue: number };
+  averagePasses: Record<TeamSide, PassStats>;
+  averageTackles: Record<TeamSide, TackleStats>;
+  averageShots: Record<TeamSide, ShotStats>;
+  scoreDistribution: Array<{ score: string; count: number }>;
+  averagePredictionError: number | null;
+}
+
+/**
+ * Team in possession: the one with the ball under close control or a pass on its way
+ */
+const teamInPossession = (state: MatchState): TeamSide | null =>
+  state.possession?.team ?? state.pass?.team ?? null;
+
+/**
+ * Where the algorithm puts the ball PREDICTION_HORIZON from now: only that one point is
+ * predicted, or where the ball stops or goes out before then
+ */
+const predictAhead = (state: MatchState, engine: MatchEngine, algorithm?: CustomAlgorithmDefinition | null) => {
+  const { x, y, z, vx, vy, vz, spin } = state.ball;
+  const { physics, conditions } = engine;
+  const lastTouch = state.lastTouch?.team ?? null;
+  const { sidesSwitched } = state;
+  const horizon = { maxPredictionTime: PREDICTION_HORIZON, timeStep: PREDICTION_HORIZON };
+  const trajectory = algorithm
+    ? predictBallTrajectoryCustom(x, y, vx, vy, { ...algorithm, parameters: { ...algorithm.parameters, ...horizon } }, spin, { z, vz, conditions, lastTouch, sidesSwitched })
+    : predictBallTrajectory(x, y, vx, vy, PREDICTION_HORIZON, PREDICTION_HORIZON, spin, { z, vz, physics, conditions, lastTouch, sidesSwitched });
+  const point = trajectory.predictedPath[trajectory.predictedPath.length - 1];
+  return point ? { x: point.x, y: point.y } : { x, y };
+};
+
+/**
+ * Play one full match and collect its statistics
+ */
+export function simulateMatch(
+  seed: number,
+  minutes: number,
+  algorithm?: CustomAlgorithmDefinition | null,
+  offside = true,
+  teamSize: TeamSize = DEFAULT_TEAM_SIZE,
+  controllers: Partial<Record<TeamSide, TeamController>> = {},
+  conditions: MatchConditions = CALM_CONDITIONS,
+  physics: PhysicsProfile = DEFAULT_PHYSICS
+): MatchResult {
+  // Matches run to the full-time whistle; the cap only guards against a clock that never ends
+  const engine = new MatchEngine({ seed, clock: { halfMinutes: minutes / 2, extraTime: false }, rules: { offside }, teamSize, controllers, conditions, physics });
+  const maxTicks = Math.round(minutes * TICKS_PER_MINUTE) * 2;
+  const horizonTicks = Math.round(PREDICTION_HORIZON * TICKS_PER_SECOND);
+
+  let liveTicks = 0;
+  const possessionTicks = { red: 0, blue: 0 };
+  let errorSum = 0;
+  let errorSamples = 0;
+  const passes: Record<TeamSide, PassStats> = { red: { attempted: 0, completed: 0 }, blue: { attempted: 0, completed: 0 } };
+  const tackles: Record<TeamSide, TackleStats> = { red: { attempted: 0, won: 0 }, blue: { attempted: 0, won: 0 } };
+  let openPass: { team: TeamSide; passerId: string } | null = null;
+  // Pending predictions waiting for the engine to reach their target tick, with the last touch they were made after
+  const pending: Array<{ tick: number; touchTick: number | null; x: number; y: number }> = [];
+
+  for (let i = 0; i < maxTicks && engine.getState().matchState !== STATE.FINISHED; i++) {
+    const state = engine.step(TICK_DT);
+
+    // A pass is completed when the next player to touch the ball is a teammate
+    const touch = state.lastTouch;
+    if (openPass && touch && touch.playerId !== openPass.passerId) {
+      if (touch.team === openPass.team) passes[openPass.team].completed++;
+      openPass = null;
+    }
+    for (const e of state.events) {
+      if (e.type === 'PASS') {
+        passes[e.team].attempted++;
+        openPass = { team: e.team, passerId: e.playerId };
+      }
+      if (e.type === 'TACKLE') {
+        tackles[e.team].attempted++;
+        if (e.won) tackles[e.team].won++;
+      }
+    }
+    const stopped = state.events.some(e => e.type !== 'PASS' && e.type !== 'TACKLE');
+    if (stopped) openPass = null;
+
+    // A stoppage makes the comparison meaningless, so drop open predictions
+    if (state.matchState !== STATE.PLAYING || stopped) {
+      pending.length = 0;
+      continue;
+    }
+
+    liveTicks++;
+    const owner = teamInPossession(state);
+    if (owner) possessionTicks[owner]++;
+
+    while (pending.length > 0 && pending[0].tick <= state.tick) {
+      const p = pending.shift()!;
+      // A player touching the ball in the meantime says nothing about the predictor
+      if ((state.lastTouch?.tick ?? null) !== p.touchTick) continue;
+      errorSum += Math.hypot(p.x - state.ball.x, p.y - state.ball.y);
+      errorSamples++;
+    }
+
+    // A ball in the keeper's hands goes where they carry it, not where the predictor says
+    if (i % PREDICTION_SAMPLE_EVERY === 0 && !state.keeperHold) {
+      pending.push({ tick: state.tick + horizonTicks, touchTick: state.lastTouch?.tick ?? null, ...predictAhead(state, engine, algorithm) });
+    }
+  }
+
+  const { score, shots } = engine.getState();
+  const owned = possessionTicks.red + possessionTicks.blue;
+
+  return {
+    seed,
+    score: { ...score },
+    winner: score.red === score.blue ? 'draw' : (score.red > score.blue ? 'red' : 'blue'),
+    minutes,
+    possession: {
+      red: owned > 0 ? possessionTicks.red / owned : 0,
+      blue: owned > 0 ? possessionTicks.blue / owned : 0
+    },
+    passes,
+    tackles,
+    shots: shots.map(s => ({ ...s, target: { ...s.target } })),
+    predictionError: errorSamples > 0 && liveTicks > 0 ? errorSum / errorSamples : null
+  };
+}
+
+/**
+ * Play a batch of matches and aggregate their results
+ */
+export function simulateBatch(
+  options: SimulationOptions,
+  onProgress?: (completed: number, total: number) => void
+): BatchResult {
+  const matches: MatchResult[] = [];
+
+  for (let i = 0; i < options.matches; i++) {
+    matches.push(simulateMatch(options.seed + i, options.minutes, options.algorithm, options.offside ?? true, options.teamSize, options.controllers, options.conditions, options.physics));
+    onProgress?.(i + 1, options.matches);
+  }
+
+  const n = Math.max(1, matches.length);
+  const sum = (fn: (m: MatchResult) => number) => matches.reduce((acc, m) => acc + fn(m), 0);
+  const shotStats = (team: TeamSide): ShotStats => {
+    const shots = matches.flatMap(m => m.shots.filter(s => s.team === team));
+    return {
+      taken: shots.length / n,
+      onTarget: shots.filter(s => s.outcome === 'GOAL' || s.outcome === 'SAVED').length / n,
+      scored: shots.filter(s => s.outcome === 'GOAL').length / n
+    };
+  };
+
+  const distribution = new Map<string, number>();
+  matches.forEach(m => {
+    const key = `${m.score.red}-${m.score.blue}`;
+    distribution.set(key, (distribution.get(key) || 0) + 1);
+  });
+
+  const withError = matches.filter(m => m.predictionError !== null);
+
+  return {
+    options: {
+      matches: options.matches,
+      seed: options.seed,
+      minutes: options.minutes,
+      offside: options.offside ?? true,
+      teamSize: options.teamSize ?? DEFAULT_TEAM_SIZE,
+      algorithmName: options.algorithm ? options.algorithm.name : 'Default Physics',
+      controllerNames: {
+        red: (options.controllers?.red ?? DEFAULT_CONTROLLER).label,
+        blue: (options.controllers?.blue ?? DEFAULT_CONTROLLER).label
+      },
+      conditionsName: (options.conditions ?? CALM_CONDITIONS).label,
+      physicsName: (options.physics ?? DEFAULT_PHYSICS).name
+    },
+    matches,
+    winRate: {
+      red: matches.filter(m => m.winner === 'red').length / n,
+      blue: matches.filter(m => m.winner === 'blue').length / n,
+      draw: matches.filter(m => m.winner === 'draw').length / n
+    },
+    averageScore: {
+      red: sum(m => m.score.red) / n,
+      blue: sum(m => m.score.blue) / n
+    },
+    goalsPerMinute: sum(m => m.score.red + m.score.blue) / Math.max(1e-9, sum(m => m.minutes)),
+    averagePossession: {
+      red: sum(m => m.possession.red) / n,
+      blue: sum(m => m.possession.blue) / n
+    },
+    averagePasses: {
+      red: { attempted: sum(m => m.passes.red.attempted) / n, completed: sum(m => m.passes.red.completed) / n },
+      blue: { attempted: sum(m => m.passes.blue.attempted) / n, completed: sum(m => m.passes.blue.completed) / n }
+    },
+    averageTackles: {
+      red: { attempted: sum(m => m.tackles.red.attempted) / n, won: sum(m => m.tackles.red.won) / n },
+      blue: { attempted: sum(m => m.tackles.blue.attempted) / n, won: sum(m => m.tackles.blue.won) / n }
+    },
+    averageShots: { red: shotStats('red'), blue: shotStats('blue') },
+    scoreDistribution: Array.from(distribution.entries())
+      .map(([score, count]) => ({ score, count }))
+      .sort((a, b) => b.count - a.count),
+    averagePredictionError: withError.length > 0
+      ? withError.reduce((acc, m) => acc + m.predictionError!, 0) / withError.length
+      : null
+  };
+}
+
+/**
+ * Human-readable summary of a batch
+ */
+export function formatBatchReport(result: BatchResult): string {
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+  const passing = ({ attempted, completed }: PassStats) =>
+    `${attempted.toFixed(1)} (${pct(attempted > 0 ? completed / attempted : 0)} completed)`;
+  const tackling = ({ attempted, won }: TackleStats) =>
+    `${attempted.toFixed(1)} (${pct(attempted > 0 ? won / attempted : 0)} won)`;
+  const shooting = ({ taken, onTarget, scored }: ShotStats) =>
+    `${taken.toFixed(1)} (${pct(taken > 0 ? onTarget / taken : 0)} on target, ${pct(taken > 0 ? scored / taken : 0)} scored)`;
+  const { options } = result;
+  const lines = [
+    `Batch: ${options.matches} matches x ${options.minutes} min, seeds ${options.seed}..${options.seed + options.matches - 1}`,
+    `Algorithm: ${options.algorithmName}`,
+    `Offside:   ${options.offside === false ? 'off' : 'on'}`,
+    `Team size: ${options.teamSize ?? DEFAULT_TEAM_SIZE}-a-side`,
+    `Teams:     Red ${options.controllerNames.red} | Blue ${options.controllerNames.blue}`,
+    `Weather:   ${options.conditionsName}`,
+    `Physics:   ${options.physicsName}`,
+    '',
+    `Win rate      Red ${pct(result.winRate.red)} | Blue ${pct(result.winRate.blue)} | Draw ${pct(result.winRate.draw)}`,
+    `Avg score     Red ${result.averageScore.red.toFixed(2)} - ${result.averageScore.blue.toFixed(2)} Blue`,
+    `Goals/minute  ${result.goalsPerMinute.toFixed(3)}`,
+    `Possession    Red ${pct(result.averagePossession.red)} | Blue ${pct(result.averagePossession.blue)}`,
+    `Passes/match  Red ${passing(result.averagePasses.red)} | Blue ${passing(result.averagePasses.blue)}`,
+    `Tackles/match Red ${tackling(result.averageTackles.red)} | Blue ${tackling(result.averageTackles.blue)}`,
+    `Shots/match   Red ${shooting(result.averageShots.red)} | Blue ${shooting(result.averageShots.blue)}`,
+    `Prediction    ${result.averagePredictionError !== null ? `${result.averagePredictionError.toFixed(1)}px mean error at ${PREDICTION_HORIZON}s on untouched balls` : 'n/a'}`,
+    '',
+    'Score distribution (Red-Blue):'
+  ];
+
+  const maxCount = Math.max(1, ...result.scoreDistribution.map(d => d.count));
+  result.scoreDistribution.forEach(({ score, count }) => {
+    const bar = '#'.repeat(Math.max(1, Math.round((count / maxCount) * 40)));
+    lines.push(`  ${score.padEnd(7)} ${String(count).padStart(5)}  ${bar}`);
+  });
+
+  return lines.join('\n');
+}
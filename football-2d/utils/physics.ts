@@ -0,0 +1,97 @@
+// Ball Physics
+// Moves the ball one step; the engine and the trajectory predictors all run it, so predictions match the match
+
+import { Ball } from '../types/match';
+import { FrictionModel, PhysicsProfile } from '../types/physics';
+import { MatchConditions } from '../types/conditions';
+import { getGroundFriction, getWindPush } from './matchConditions';
+
+export const DEFAULT_PHYSICS: PhysicsProfile = {
+  name: 'Default Physics',
+  groundFriction: 0.94,
+  airFriction: 0.985,
+  gravity: 0.3,
+  bounce: 0.4,
+  minBounceSpeed: 1.5,
+  spinDecay: 0.04,
+  magnusCoefficient: 0.01
+};
+
+const MIN_SPIN = 0.01; // Less spin than this is worn off completely
+
+/**
+ * Share of its speed the ball keeps under a friction model, clamped to 0-1 so no model speeds it up
+ */
+function applyFrictionModel(speed: number, { type, coefficients }: FrictionModel): number {
+  let friction: number;
+  switch (type) {
+    case 'linear':
+      // friction = c[0] + c[1] * speed
+      friction = coefficients[0] + (coefficients[1] || 0) * speed;
+      break;
+    case 'quadratic':
+      // friction = c[0] + c[1] * speed^2
+      friction = coefficients[0] + (coefficients[1] || 0) * speed * speed;
+      break;
+    case 'exponential':
+      // friction = c[0] * exp(-c[1] * speed)
+      friction = coefficients[0] * Math.exp(-(coefficients[1] || 0) * speed);
+      break;
+    case 'piecewise':
+      // coefficients = [lowFriction, medFriction, highFriction, threshold1, threshold2]
+      friction = speed < coefficients[3] ? coefficients[0] : speed < coefficients[4] ? coefficients[1] : coefficients[2];
+      break;
+    default:
+      friction = coefficients[0];
+  }
+  return Math.max(0, Math.min(1, friction));
+}
+
+/**
+ * Share of its speed a ball rolling at `speed` keeps each tick on a dry pitch
+ */
+export const getRollingFriction = (physics: PhysicsProfile, speed: number): number =>
+  physics.frictionModel ? applyFrictionModel(speed, physics.frictionModel) : physics.groundFriction;
+
+/**
+ * Move the ball on by dt ticks: along its velocity, then friction and wind slow and push it,
+ * gravity and bounces act on a ball in the air and spin curls its path. Returns the ball, changed in place.
+ */
+export function advanceBall(ball: Ball, dt: number, physics: PhysicsProfile, conditions: MatchConditions): Ball {
+  const airborne = ball.z > 0;
+  const speed = Math.hypot(ball.vx, ball.vy);
+  const friction = Math.pow(
+    airborne ? physics.airFriction : getGroundFriction(ball.x, ball.y, conditions, getRollingFriction(physics, speed)),
+    dt
+  );
+  const wind = getWindPush(conditions, airborne, speed);
+  ball.x += ball.vx * dt;
+  ball.y += ball.vy * dt;
+  ball.vx = ball.vx * friction + wind.x * dt;
+  ball.vy = ball.vy * friction + wind.y * dt;
+
+  // Flight: gravity pulls it down and each landing loses most of the vertical speed
+  if (ball.z > 0 || ball.vz > 0) {
+    ball.vz -= physics.gravity * dt;
+    ball.z += ball.vz * dt;
+    if (ball.z <= 0) {
+      ball.z = 0;
+      ball.vz = -ball.vz * physics.bounce;
+      if (ball.vz < physics.minBounceSpeed) ball.vz = 0;
+    }
+  }
+
+  // Magnus effect: spin turns the ball's direction of travel without changing its speed
+  if (ball.spin !== 0) {
+    const turn = physics.magnusCoefficient * ball.spin * dt;
+    const cos = Math.cos(turn);
+    const sin = Math.sin(turn);
+    const vx = ball.vx;
+    ball.vx = vx * cos - ball.vy * sin;
+    ball.vy = vx * sin + ball.vy * cos;
+    ball.spin *= Math.pow(1 - physics.spinDecay, dt);
+    if (Math.abs(ball.spin) < MIN_SPIN) ball.spin = 0;
+  }
+
+  return ball;
+}
@@ -0,0 +1,27 @@
+// Player Attributes
+// Default ratings for each formation slot, so line-ups come with fast wingers and strong strikers
+
+import { FormationSlot, PlayerAttributes } from '../types/match';
+
+export const DEFAULT_PLAYER_ATTRIBUTES: PlayerAttributes = {
+  speed: 1,
+  acceleration: 1,
+  kickPower: 1,
+  accuracy: 0.85
+};
+
+const isWide = (slot: FormationSlot) => slot.width <= 0.25 || slot.width >= 0.75;
+
+/**
+ * Ratings for the player in a formation slot, with optional squad overrides
+ */
+export function createPlayerAttributes(slot: FormationSlot, overrides: Partial<PlayerAttributes> = {}): PlayerAttributes {
+  let profile: Partial<PlayerAttributes> = {};
+  switch (slot.position) {
+    case 'GK': profile = { speed: 0.9, kickPower: 1.1, accuracy: 0.8 }; break;
+    case 'DEF': profile = { speed: 0.95, kickPower: 1.05, accuracy: 0.8 }; break;
+    case 'MID': profile = isWide(slot) ? { speed: 1.1, acceleration: 1.1, kickPower: 0.95 } : { accuracy: 0.9 }; break;
+    case 'FWD': profile = isWide(slot) ? { speed: 1.1, acceleration: 1.1 } : { kickPower: 1.15, accuracy: 0.9 }; break;
+  }
+  return { ...DEFAULT_PLAYER_ATTRIBUTES, ...profile, ...overrides };
+}
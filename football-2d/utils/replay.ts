@@ -0,0 +1,258 @@
+// Match Replay Recording & Playback
+// Records engine ticks into a compact ReplayFile and reconstructs frames from it
+
+import { Ball, LockInfo, MatchEvent, MatchInputs, MatchPhase, MatchState, Player } from '../types/match';
+import {
+  ReplayFile,
+  ReplayKeyframe,
+  ReplayDecision,
+  REPLAY_FORMAT,
+  REPLAY_VERSION
+} from '../types/replay';
+import { TICK_RATE } from './fixedTimestep';
+import { MatchEngine } from './matchEngine';
+import { DEFAULT_STRATEGY, createStrategyRegistry } from './strategies';
+import { StrategyDefinition } from '../types/strategy';
+import { validateMatchConditions } from '../types/conditions';
+import { validatePhysicsProfile } from '../types/physics';
+import { getPeriodLabel, isBreakPeriod } from './matchClock';
+
+const KEYFRAME_INTERVAL = 5;        // Ticks between regular keyframes (12 per second)
+const ANNOUNCE_TICKS = TICK_RATE * 1.5; // How long restart messages stay on screen
+
+const round = (v: number) => Math.round(v * 10) / 10;
+
+export class ReplayRecorder {
+  private replay: ReplayFile;
+  private previous: ReplayKeyframe; // Last tick's frame, kept in case the next tick teleports
+
+  constructor(engine: Pick<MatchEngine, 'seed' | 'clockConfig' | 'rules' | 'teamSize' | 'formations' | 'userStrategies' | 'controllers' | 'conditions' | 'physics'>, state: MatchState) {
+    this.replay = {
+      format: REPLAY_FORMAT,
+      version: REPLAY_VERSION,
+      seed: engine.seed,
+      clock: { ...engine.clockConfig },
+      rules: { ...engine.rules },
+      teamSize: engine.teamSize,
+      formations: { red: engine.formations.red.id, blue: engine.formations.blue.id },
+      ...(engine.userStrategies.length > 0 && { strategies: engine.userStrategies }),
+      controllers: { red: engine.controllers.red.id, blue: engine.controllers.blue.id },
+      conditions: engine.conditions,
+      physics: engine.physics,
+      createdAt: new Date().toISOString(),
+      tickRate: TICK_RATE,
+      keyframeInterval: KEYFRAME_INTERVAL,
+      durationTicks: state.tick,
+      players: [...state.red, ...state.blue].map(p => ({ id: p.id, role: p.role, position: p.position, attributes: { ...p.attributes } })),
+      inputs: [],
+      decisions: [],
+      events: [],
+      keyframes: [this.keyframe(state)]
+    };
+    this.previous = this.replay.keyframes[0];
+  }
+
+  /**
+   * Record the result of one engine step along with the inputs it was given
+   */
+  recordTick(state: MatchState, inputs: MatchInputs = {}) {
+    const replay = this.replay;
+    if (state.tick === replay.durationTicks) return; // Engine did not advance (full time)
+    replay.durationTicks = state.tick;
+
+    const sectorAssignments = inputs.sectorAssignments ?? [];
+    const strategies = Object.keys(inputs.strategies ?? {}).length > 0 ? { ...inputs.strategies } : undefined;
+    if (sectorAssignments.length > 0 || strategies) {
+      replay.inputs.push({ tick: state.tick, sectorAssignments: [...sectorAssignments], ...(strategies && { strategies }) });
+    }
+    state.events.forEach(event => replay.events.push({ tick: state.tick, event }));
+
+    // Always keyframe event ticks, and the tick before them, so playback never slides
+    // players and the ball across a teleport (restarts, resets)
+    const frame = this.keyframe(state);
+    if (state.events.length > 0 && replay.keyframes[replay.keyframes.length - 1] !== this.previous) {
+      replay.keyframes.push(this.previous);
+    }
+    if (state.tick % KEYFRAME_INTERVAL === 0 || state.events.length > 0) {
+      replay.keyframes.push(frame);
+    }
+    this.previous = frame;
+  }
+
+  recordDecision(decision: ReplayDecision) {
+    this.replay.decisions.push(decision);
+  }
+
+  getReplay(): ReplayFile {
+    return this.replay;
+  }
+
+  private keyframe(state: MatchState): ReplayKeyframe {
+    const frame: ReplayKeyframe = {
+      tick: state.tick,
+      phase: state.matchState,
+      ball: [round(state.ball.x), round(state.ball.y), round(state.ball.z)],
+      players: [...state.red, ...state.blue].flatMap(p => [round(p.x), round(p.y)])
+    };
+    if (state.lockedPlayers.size > 0) {
+      frame.locks = Array.from(state.lockedPlayers.entries()).map(([id, lock]) => [id, lock.targetSector]);
+    }
+    return frame;
+  }
+}
+
+// Validation function
+export function validateReplay(json: any): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!json || json.format !== REPLAY_FORMAT) {
+    errors.push(`Not a replay file (expected format "${REPLAY_FORMAT}")`);
+    return { valid: false, errors };
+  }
+  if (typeof json.version !== 'number' || json.version > REPLAY_VERSION) {
+    errors.push(`Unsupported replay version ${json.version}`);
+  }
+  if (typeof json.seed !== 'number') {
+    errors.push('Missing or invalid "seed" field');
+  }
+  if (!Array.isArray(json.players) || json.players.length === 0) {
+    errors.push('Missing "players" list');
+  }
+  if (!Array.isArray(json.keyframes) || json.keyframes.length === 0) {
+    errors.push('Replay has no keyframes');
+  }
+  if (!Array.isArray(json.inputs) || !Array.isArray(json.decisions) || !Array.isArray(json.events)) {
+    errors.push('Missing "inputs", "decisions" or "events" arrays');
+  }
+  if (json.conditions !== undefined) {
+    errors.push(...validateMatchConditions(json.conditions).errors.map(e => `conditions: ${e}`));
+  }
+  if (json.physics !== undefined) {
+    errors.push(...validatePhysicsProfile(json.physics).errors.map(e => `physics: ${e}`));
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
+
+// --- Playback ---
+
+export interface ReplayFrame {
+  tick: number;
+  phase: MatchPhase;
+  ball: Ball;
+  red: Player[];
+  blue: Player[];
+  lockedPlayers: Map<string, LockInfo>;
+  strategies: Map<string, StrategyDefinition>; // Strategy each player is playing at this tick
+  score: { red: number; blue: number };
+  announcerMsg: string;
+  decisions: ReplayDecision[]; // Decisions made up to this tick
+}
+
+/**
+ * Index of the last keyframe at or before tick (binary search)
+ */
+const keyframeIndexAt = (keyframes: ReplayKeyframe[], tick: number) => {
+  let lo = 0;
+  let hi = keyframes.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (keyframes[mid].tick <= tick) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+const announcementFor = (event: MatchEvent) => {
+  if (event.type === 'GOAL') return `${event.team.toUpperCase()} GOAL!`;
+  if (event.type === 'OUT') return `${event.team.toUpperCase()} ${event.restart}`;
+  if (event.type === 'ADDED_TIME') return `+${event.seconds}s ADDED TIME`;
+  if (event.type === 'OFFSIDE') return `OFFSIDE! ${event.playerId.toUpperCase()}`;
+  if (event.type === 'FOUL') return `FOUL! ${event.team.toUpperCase()} ${event.restart}`;
+  if (event.type === 'CARD') return `${event.card === 'RED' ? '🟥' : '🟨'} ${event.card} CARD ${event.playerId.toUpperCase()}`;
+  if (event.type === 'PERIOD') {
+    return event.period === 'EXTRA_TIME_BREAK' ? 'EXTRA TIME' : getPeriodLabel(event.period).toUpperCase();
+  }
+  return '';
+};
+
+/**
+ * Reconstruct what the match looked like at a (fractional) tick
+ */
+export function getReplayFrame(replay: ReplayFile, tick: number): ReplayFrame {
+  const { keyframes, players } = replay;
+  const i = keyframeIndexAt(keyframes, tick);
+  const a = keyframes[i];
+  const b = keyframes[Math.min(i + 1, keyframes.length - 1)];
+  const t = b.tick > a.tick ? Math.max(0, Math.min(1, (tick - a.tick) / (b.tick - a.tick))) : 0;
+  const mix = (x: number, y: number) => x + (y - x) * t;
+
+  const all: Player[] = players.map((p, idx) => {
+    const x = mix(a.players[idx * 2], b.players[idx * 2]);
+    const y = mix(a.players[idx * 2 + 1], b.players[idx * 2 + 1]);
+    // Stamina is not recorded; replays only need positions
+    return { id: p.id, role: p.role, position: p.position, attributes: p.attributes, stamina: 1, x, y, vx: 0, vy: 0 };
+  });
+
+  // Score and banner come from the events that already happened
+  let score = { red: 0, blue: 0 };
+  let announcerMsg = '';
+  let announcedAt = -Infinity;
+  let sticky = false;
+  for (const { tick: eventTick, event } of replay.events) {
+    if (eventTick > tick) break;
+    if (event.type === 'GOAL') {
+      score = { ...event.score };
+      announcerMsg = announcementFor(event);
+      sticky = true;
+    } else if (event.type === 'KICKOFF') {
+      announcerMsg = '';
+      sticky = false;
+    } else if (event.type === 'PERIOD' && (isBreakPeriod(event.period) || event.period === 'FULL_TIME')) {
+      announcerMsg = announcementFor(event);
+      sticky = true;
+    } else if (event.type === 'OUT' || event.type === 'ADDED_TIME' || event.type === 'FOUL' || event.type === 'CARD' || event.type === 'OFFSIDE') {
+      announcerMsg = announcementFor(event);
+      announcedAt = eventTick;
+      sticky = false;
+    }
+  }
+  if (!sticky && tick - announcedAt > ANNOUNCE_TICKS) announcerMsg = '';
+
+  // Latest strategy pick for each player up to this tick
+  const registry = createStrategyRegistry(replay.strategies);
+  const picks = new Map<string, string>();
+  for (const input of replay.inputs) {
+    if (input.tick > tick) break;
+    Object.entries(input.strategies ?? {}).forEach(([id, strategy]) => { if (registry[strategy]) picks.set(id, strategy); });
+  }
+
+  return {
+    tick,
+    phase: a.phase,
+    ball: { x: mix(a.ball[0], b.ball[0]), y: mix(a.ball[1], b.ball[1]), z: mix(a.ball[2] ?? 0, b.ball[2] ?? 0), vx: 0, vy: 0, vz: 0, spin: 0 },
+    red: all.filter(p => p.id.startsWith('r')),
+    blue: all.filter(p => p.id.startsWith('b')),
+    lockedPlayers: new Map((a.locks || []).map(([id, sector]) => [id, { targetSector: sector, timer: 0 }])),
+    strategies: new Map(players.map(p => [p.id, registry[picks.get(p.id) ?? DEFAULT_STRATEGY]])),
+    score,
+    announcerMsg,
+    decisions: replay.decisions.filter(d => d.tick <= tick)
+  };
+}
+
+/**
+ * Trigger a browser download of the replay as JSON
+ */
+export function downloadReplay(replay: ReplayFile) {
+  const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `match-${replay.seed}-${replay.createdAt.replace(/[:.]/g, '-')}.replay.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
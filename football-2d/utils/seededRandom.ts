@@ -0,0 +1,38 @@
+// Seeded Random Number Generator
+// Deterministic replacement for Math.random so matches can be reproduced from a seed
+
+/**
+ * Creates a fresh 32-bit seed for a new match
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Small, fast PRNG (mulberry32). Same seed always yields the same sequence.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Returns a float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Returns a float in [min, max)
+   */
+  range(min: number, max: number): number {
+    return this.next() * (max - min) + min;
+  }
+}
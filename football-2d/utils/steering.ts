@@ -0,0 +1,106 @@
+// Steering Behaviours
+// Turn where a player wants to be into an acceleration that gets them there smoothly and around people
+
+export interface Vector {
+  x: number;
+  y: number;
+}
+
+/**
+ * Shorten a vector to at most `max`
+ */
+export function limit(v: Vector, max: number): Vector {
+  const length = Math.hypot(v.x, v.y);
+  return length > max ? { x: v.x / length * max, y: v.y / length * max } : v;
+}
+
+/**
+ * Acceleration that turns `velocity` towards the velocity wanted next tick. `friction` is the
+ * share of velocity kept each tick, so holding `maxAccel` settles at maxAccel / (1 - friction).
+ */
+const steerTowards = (velocity: Vector, desired: Vector, maxAccel: number, friction: number): Vector =>
+  limit({ x: desired.x - velocity.x * friction, y: desired.y - velocity.y * friction }, maxAccel);
+
+/**
+ * Run flat out at the target and through it, as when going for the ball
+ */
+export function seek(position: Vector, velocity: Vector, target: Vector, maxAccel: number, friction: number): Vector {
+  const dx = target.x - position.x;
+  const dy = target.y - position.y;
+  const dist = Math.hypot(dx, dy);
+  if (dist === 0) return { x: 0, y: 0 };
+  const speed = maxAccel / (1 - friction);
+  return steerTowards(velocity, { x: dx / dist * speed, y: dy / dist * speed }, maxAccel, friction);
+}
+
+/**
+ * Run at the target, easing off over the last `slowRadius` px so the player stops on it
+ * instead of overshooting and turning back
+ */
+export function arrive(
+  position: Vector,
+  velocity: Vector,
+  target: Vector,
+  maxAccel: number,
+  friction: number,
+  slowRadius: number
+): Vector {
+  const dx = target.x - position.x;
+  const dy = target.y - position.y;
+  const dist = Math.hypot(dx, dy);
+  if (dist === 0) return steerTowards(velocity, { x: 0, y: 0 }, maxAccel, friction);
+  const speed = maxAccel / (1 - friction) * Math.min(1, dist / slowRadius);
+  return steerTowards(velocity, { x: dx / dist * speed, y: dy / dist * speed }, maxAccel, friction);
+}
+
+/**
+ * Push away from neighbours closer than `radius`, harder the closer they are.
+ * Each neighbour adds up to 1, so a crowd pushes harder than a single player.
+ */
+export function separation(position: Vector, neighbours: Vector[], radius: number): Vector {
+  const push = { x: 0, y: 0 };
+  neighbours.forEach(n => {
+    const dx = position.x - n.x;
+    const dy = position.y - n.y;
+    const d = Math.hypot(dx, dy);
+    if (d > 0 && d < radius) {
+      push.x += dx / d * (1 - d / radius);
+      push.y += dy / d * (1 - d / radius);
+    }
+  });
+  return push;
+}
+
+/**
+ * Sideways swerve around the nearest obstacle within `lookAhead` px along `heading` (a unit
+ * vector) that would pass closer than `clearance`. Its length is up to 1, growing as the
+ * obstacle gets nearer; an obstacle dead ahead is passed on the left of the heading.
+ */
+export function avoid(position: Vector, heading: Vector, obstacles: Vector[], lookAhead: number, clearance: number): Vector {
+  let nearest: { ahead: number; side: number } | null = null;
+  for (const o of obstacles) {
+    const rx = o.x - position.x;
+    const ry = o.y - position.y;
+    const ahead = rx * heading.x + ry * heading.y;
+    const side = ry * heading.x - rx * heading.y; // Positive when the obstacle is to the right
+    if (ahead > 0 && ahead < lookAhead && Math.abs(side) < clearance && (!nearest || ahead < nearest.ahead)) {
+      nearest = { ahead, side };
+    }
+  }
+  if (!nearest) return { x: 0, y: 0 };
+
+  const { ahead, side } = nearest;
+  const strength = 1 - ahead / lookAhead;
+  // Left of the heading is (heading.y, -heading.x) with y pointing down the screen
+  const away = side >= 0 ? strength : -strength;
+  return { x: heading.y * away, y: -heading.x * away };
+}
+
+/**
+ * Where to run to meet a moving target: the first point of its predicted path (one point per
+ * tick) the player can reach in time at `speed`, or the end of the path if they reach none
+ */
+export function pursue(position: Vector, speed: number, target: Vector, path: Vector[]): Vector {
+  const meet = path.find((point, i) => Math.hypot(point.x - position.x, point.y - position.y) <= speed * (i + 1));
+  return meet ?? path[path.length - 1] ?? target;
+}
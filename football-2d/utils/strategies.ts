@@ -0,0 +1,235 @@
+// Strategy Registry
+// Built-in and user-defined strategy records, and where each one puts a field player
+
+import { Ball, FormationSlot, Player } from '../types/match';
+import { StrategyCategory, StrategyDefinition, StrategyPositioning, validateStrategy } from '../types/strategy';
+
+export const DEFAULT_STRATEGY = 'BALANCED';
+export const USER_STRATEGIES_KEY = 'userStrategies';
+
+const COVER_SHARE = 0.4;         // COVER stands this share of the way from the ball to our goal
+const MARK_DISTANCE = 25;        // MARK stands this far goal side of the opponent
+const SPACE_OFFSET = 100;        // SPACE stands this far to the emptier side of the ball
+const SPACE_RADIUS = 150;        // Opponents this close to the ball count towards crowding a side
+const LOW_EFFORT = 0.625;        // Strategies running at most this share of sprint let a tired player recover
+
+export const BUILT_IN_STRATEGIES: StrategyDefinition[] = [
+  // Offensive
+  {
+    id: 'BALL_PRESSURE', label: 'Ball Pressure', icon: '⚡', category: 'offensive',
+    description: 'Aggressively chase and pressure the ball carrier',
+    positioning: { anchor: 'BALL', depth: -40, width: 200, effort: 1, pressDistance: 200 }
+  },
+  {
+    id: 'PRESS_FORWARD', label: 'Press Forward', icon: '🚀', category: 'offensive',
+    description: 'Push toward opponent goal for scoring opportunities',
+    positioning: { anchor: 'SUPPORT', depth: 150, width: 600, effort: 0.9, pressDistance: 0 },
+    onBall: { progressWeight: 1.5, shootRange: 1.3 }
+  },
+  {
+    id: 'FORWARD_SUPPORT', label: 'Forward Support', icon: '⚔️', category: 'offensive',
+    description: 'Stay upfield to receive passes and create chances',
+    positioning: { anchor: 'BALL', depth: 150, width: 600, effort: 0.75, pressDistance: 0 }
+  },
+  {
+    id: 'PLAYMAKER', label: 'Playmaker', icon: '🎨', category: 'offensive',
+    description: 'Position to create passing lanes and control tempo',
+    positioning: { anchor: 'SPACE', depth: -80, width: 0, effort: 0.625, pressDistance: 0 },
+    onBall: { passWeight: 1.5, progressWeight: 1.3 }
+  },
+  {
+    id: 'COUNTER_ATTACK', label: 'Counter Attack', icon: '💨', category: 'offensive',
+    description: 'Quick transition from defense to attack',
+    positioning: { anchor: 'SUPPORT', depth: 0, width: 600, effort: 0.625, pressDistance: 0 },
+    inPossession: { anchor: 'BALL', depth: 250, effort: 1 },
+    onBall: { progressWeight: 2 }
+  },
+  {
+    id: 'WING_PLAY', label: 'Wing Play', icon: '🎪', category: 'offensive',
+    description: 'Position wide to stretch opponent defense',
+    positioning: { anchor: 'BALL', depth: 80, width: 'TOUCHLINE', effort: 0.75, pressDistance: 0 }
+  },
+
+  // Defensive
+  {
+    id: 'DEFENSIVE_COVER', label: 'Defensive Cover', icon: '🛡️', category: 'defensive',
+    description: 'Stay between ball and your goal to protect',
+    positioning: { anchor: 'COVER', depth: 0, width: 160, effort: 0.8, pressDistance: 0 },
+    onBall: { passWeight: 1.2, progressWeight: 0.5 }
+  },
+  {
+    id: 'MARK_PLAYER', label: 'Mark Player', icon: '🔒', category: 'defensive',
+    description: 'Shadow and pressure specific opponent',
+    positioning: { anchor: 'MARK', depth: 0, width: 0, effort: 0.9, pressDistance: 0 }
+  },
+  {
+    id: 'HOLD_POSITION', label: 'Hold Position', icon: '🏰', category: 'defensive',
+    description: 'Maintain defensive shape and position',
+    positioning: { anchor: 'HOME', depth: 0, width: 600, effort: 0.4, pressDistance: 0 },
+    onBall: { progressWeight: 0.7 }
+  },
+  {
+    id: 'ZONE_LOCK', label: 'Zone Lock', icon: '🎯', category: 'defensive',
+    description: 'Control a specific area of the field',
+    positioning: { anchor: 'BALL', depth: 0, width: 0, effort: 0.8, pressDistance: 0, leash: 120 }
+  },
+
+  // Balanced
+  {
+    id: 'BOX_TO_BOX', label: 'Box-to-Box', icon: '🔄', category: 'balanced',
+    description: 'Dynamically move between attack and defense',
+    positioning: { anchor: 'BALL', depth: -150, width: 600, effort: 0.8, pressDistance: 0 },
+    inPossession: { depth: 100 }
+  },
+  {
+    id: 'BALANCED', label: 'Balanced', icon: '⚖️', category: 'balanced',
+    description: 'Adapt role based on game flow',
+    positioning: { anchor: 'SUPPORT', depth: 0, width: 600, effort: 0.625, pressDistance: 0 }
+  },
+  {
+    id: 'POSSESSION', label: 'Possession', icon: '⏱️', category: 'balanced',
+    description: 'Focus on keeping the ball and controlling pace',
+    positioning: { anchor: 'BALL', depth: -60, width: 240, effort: 0.625, pressDistance: 0 },
+    onBall: { passWeight: 1.5, progressWeight: 0.5 }
+  }
+];
+
+export type StrategyRegistry = Record<string, StrategyDefinition>;
+
+/**
+ * Built-in strategies plus the user's own; a user strategy with a built-in id replaces it
+ */
+export function createStrategyRegistry(userStrategies: StrategyDefinition[] = []): StrategyRegistry {
+  const registry: StrategyRegistry = {};
+  [...BUILT_IN_STRATEGIES, ...userStrategies].forEach(s => { registry[s.id] = s; });
+  return registry;
+}
+
+export const formatStrategy = (s: StrategyDefinition) => `${s.icon} ${s.label}`;
+
+// Label with description, as listed to the AI
+export const describeStrategy = (s: StrategyDefinition) => `${formatStrategy(s)} - ${s.description}`;
+
+/**
+ * Strategy labels grouped by category, for the AI prompt and the knowledge panel
+ */
+export function getStrategyGuidelines(registry: StrategyRegistry): Record<StrategyCategory, string[]> {
+  const guidelines: Record<StrategyCategory, string[]> = { offensive: [], defensive: [], balanced: [] };
+  Object.values(registry).forEach(s => guidelines[s.category].push(describeStrategy(s)));
+  return guidelines;
+}
+
+/**
+ * When to reach for each category of strategy, naming the strategies in it, for the AI prompt and the knowledge panel
+ */
+export function getStrategyUsage(registry: StrategyRegistry): { winning: string; losing: string; tied: string } {
+  const named = (category: StrategyCategory) =>
+    Object.values(registry).filter(s => s.category === category).map(formatStrategy).join(', ') || 'none defined';
+  return {
+    winning: `When ahead: Use defensive strategies (${named('defensive')}) to protect your lead.`,
+    losing: `When behind: Use offensive strategies (${named('offensive')}) to create scoring chances.`,
+    tied: `When tied: Use balanced strategies (${named('balanced')}) to adapt to game flow and exploit opportunities.`
+  };
+}
+
+/**
+ * Labels of the strategies easy enough on the legs for a tired player: never pressing and
+ * never asking for more than LOW_EFFORT, with or without the ball
+ */
+export function getLowEffortStrategies(registry: StrategyRegistry): string[] {
+  return Object.values(registry)
+    .filter(({ positioning, inPossession }) =>
+      positioning.pressDistance === 0 && Math.max(positioning.effort, inPossession?.effort ?? 0) <= LOW_EFFORT)
+    .map(formatStrategy);
+}
+
+/**
+ * Strategy named in a reply such as "🛡️ Defensive Cover - Stay between ball and goal" or
+ * "DEFENSIVE_COVER" (the first one named, if the description mentions others), or null
+ */
+export function findStrategy(registry: StrategyRegistry, text: string): string | null {
+  const lower = text.toLowerCase();
+  let best: string | null = null;
+  let bestIndex = Infinity;
+  for (const s of Object.values(registry)) {
+    const i = Math.min(...[s.label, s.id].map(name => lower.indexOf(name.toLowerCase())).filter(i => i >= 0));
+    if (i < bestIndex) { bestIndex = i; best = s.id; }
+  }
+  return best;
+}
+
+// What the engine knows about a field player when placing them
+export interface StrategyContext {
+  player: Player;
+  ball: Ball;
+  slot: FormationSlot;
+  opponents: Player[];
+  dir: 1 | -1;                   // +1 when attacking the right-hand goal
+  lineDepth: number;             // How far ahead of the ball the slot's line supports from
+  ownGoal: { x: number; y: number };
+  inPossession: boolean;         // Our team played the ball last
+  field: { width: number; height: number };
+}
+
+/**
+ * Where a positioning puts the player and how hard they run there
+ */
+export function getPositioningTarget(pos: StrategyPositioning, ctx: StrategyContext) {
+  const { player, ball, slot, opponents, dir, ownGoal, field } = ctx;
+  const home = { x: ownGoal.x + dir * slot.depth * field.width, y: field.height / 2 };
+
+  let anchor = { x: ball.x, y: ball.y };
+  switch (pos.anchor) {
+    case 'SUPPORT': anchor = { x: ball.x + dir * ctx.lineDepth, y: ball.y }; break;
+    case 'HOME': anchor = home; break;
+    case 'COVER':
+      anchor = { x: ball.x + (ownGoal.x - ball.x) * COVER_SHARE, y: ball.y + (ownGoal.y - ball.y) * COVER_SHARE };
+      break;
+    case 'SPACE': {
+      const near = opponents.filter(o => Math.hypot(o.x - ball.x, o.y - ball.y) < SPACE_RADIUS);
+      const above = near.filter(o => o.y < ball.y).length;
+      anchor = { x: ball.x, y: ball.y + (above > near.length - above ? SPACE_OFFSET : -SPACE_OFFSET) };
+      break;
+    }
+    case 'MARK': {
+      const outfield = opponents.filter(o => o.role !== 'GK');
+      if (outfield.length === 0) break;
+      const mark = outfield.reduce((a, o) => Math.hypot(o.x - player.x, o.y - player.y) < Math.hypot(a.x - player.x, a.y - player.y) ? o : a);
+      const d = Math.hypot(ownGoal.x - mark.x, ownGoal.y - mark.y) || 1;
+      anchor = { x: mark.x + (ownGoal.x - mark.x) / d * MARK_DISTANCE, y: mark.y + (ownGoal.y - mark.y) / d * MARK_DISTANCE };
+      break;
+    }
+  }
+
+  let x = anchor.x + dir * pos.depth;
+  let y = pos.width === 'TOUCHLINE'
+    ? (slot.width < 0.5 ? 0 : field.height)
+    : anchor.y + (slot.width - 0.5) * pos.width;
+
+  // Stay within the leash of the slot's spot
+  if (pos.leash) {
+    const spot = { x: home.x, y: slot.width * field.height };
+    const scale = Math.min(1, pos.leash / (Math.hypot(x - spot.x, y - spot.y) || 1));
+    x = spot.x + (x - spot.x) * scale;
+    y = spot.y + (y - spot.y) * scale;
+  }
+  return { x, y, effort: pos.effort };
+}
+
+/**
+ * Valid user strategies saved in this browser
+ */
+export function loadUserStrategies(): StrategyDefinition[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(USER_STRATEGIES_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(s => validateStrategy(s).valid) : [];
+  } catch (e) {
+    console.error('Failed to load user strategies:', e);
+    return [];
+  }
+}
+
+export function saveUserStrategies(strategies: StrategyDefinition[]) {
+  localStorage.setItem(USER_STRATEGIES_KEY, JSON.stringify(strategies));
+}
@@ -0,0 +1,121 @@
+// Team Controllers
+// Team AIs that can be given to either side, in the game and in headless simulations
+
+import { DEFAULT_CONTROLLER, FIELD_HEIGHT, FIELD_WIDTH, PENALTY_AREA_DEPTH, createBehaviourController } from './matchEngine';
+import { PlayerIntent, TeamController } from '../types/controller';
+
+const BUS_LINE = PENALTY_AREA_DEPTH + 30; // Distance from goal line the bus parks at
+const BUS_SPACING = 60;
+const BUS_CHASE_RANGE = 120;              // Ball this close to the line is attacked
+const CLEARANCE_POWER = 12;
+
+/**
+ * Every field player goes for the ball, playground style; on the ball it plays like the default
+ */
+export const SWARM_CONTROLLER: TeamController = {
+  id: 'SWARM',
+  label: 'Swarm',
+  description: 'Every field player chases the ball',
+  observe: ({ state, team }) => Object.fromEntries(
+    team.filter(p => p.role !== 'GK').map(p => [p.id, { x: state.ball.x, y: state.ball.y, effort: 1 }])
+  ),
+  kick: (observation, player) => DEFAULT_CONTROLLER.kick(observation, player)
+};
+
+/**
+ * Field players hold a line across the edge of their own area, following the ball sideways.
+ * The one nearest the ball steps out when it comes close, and every touch is cleared long.
+ */
+export const PARK_THE_BUS_CONTROLLER: TeamController = {
+  id: 'PARK_THE_BUS',
+  label: 'Park the Bus',
+  description: 'Hold a line at the edge of the area and clear the ball upfield',
+  observe({ state, team, attacksLeft }) {
+    const b = state.ball;
+    const lineX = attacksLeft ? FIELD_WIDTH - BUS_LINE : BUS_LINE;
+    const field = team.filter(p => p.role !== 'GK');
+    const nearest = field.reduce<typeof field[number] | null>((best, p) =>
+      !best || Math.hypot(b.x - p.x, b.y - p.y) < Math.hypot(b.x - best.x, b.y - best.y) ? p : best, null);
+
+    const intents: Record<string, PlayerIntent> = {};
+    field.forEach((p, i) => {
+      if (p === nearest && Math.abs(b.x - lineX) < BUS_CHASE_RANGE) {
+        intents[p.id] = { x: b.x, y: b.y, effort: 1 };
+        return;
+      }
+      const y = b.y + (i - (field.length - 1) / 2) * BUS_SPACING;
+      intents[p.id] = { x: lineX, y: Math.max(BUS_SPACING, Math.min(FIELD_HEIGHT - BUS_SPACING, y)), effort: 0.8, arrive: true };
+    });
+    return intents;
+  },
+  kick: ({ state, attacksLeft }) => {
+    // Upfield and away from the middle of the pitch
+    const angle = (attacksLeft ? Math.PI : 0) + (state.ball.y < FIELD_HEIGHT/2 ? -0.4 : 0.4) * (attacksLeft ? -1 : 1);
+    return { type: 'PASS', angle, power: CLEARANCE_POWER, lofted: true };
+  }
+};
+
+// Behaviour tree example: win the ball back high up the pitch, sit deeper when ahead
+export const COUNTER_PRESS_CONTROLLER = createBehaviourController({
+  id: 'COUNTER_PRESS',
+  label: 'Counter Press',
+  description: 'Swarm a lost ball, get forward with it and drop back to protect a lead',
+  root: {
+    type: 'selector',
+    name: 'Field player',
+    children: [
+      {
+        type: 'sequence',
+        name: 'Go for the ball',
+        children: [
+          { type: 'condition', condition: 'CHASER' },
+          { type: 'action', action: 'CHASE' }
+        ]
+      },
+      {
+        type: 'sequence',
+        name: 'Win it straight back',
+        children: [
+          { type: 'condition', condition: 'TEAM_HAS_BALL', not: true },
+          { type: 'condition', condition: 'KEEPER_HOLDING', not: true },
+          { type: 'condition', condition: 'SET_PIECE', not: true },
+          { type: 'condition', condition: 'BALL_WITHIN', distance: 200 },
+          { type: 'action', action: 'PRESS' }
+        ]
+      },
+      {
+        type: 'sequence',
+        name: 'Protect the lead',
+        children: [
+          { type: 'condition', condition: 'WINNING' },
+          { type: 'condition', condition: 'TEAM_HAS_BALL', not: true },
+          { type: 'action', action: 'COVER' }
+        ]
+      },
+      {
+        type: 'sequence',
+        name: 'Get forward',
+        children: [
+          { type: 'condition', condition: 'TEAM_HAS_BALL' },
+          { type: 'condition', condition: 'BALL_IN_OWN_HALF', not: true },
+          { type: 'action', action: 'MAKE_RUN', effort: 0.9 }
+        ]
+      },
+      { type: 'action', action: 'STRATEGY' }
+    ]
+  }
+});
+
+// Controllers offered in the game and by the simulator; add your own here
+export const TEAM_CONTROLLERS: TeamController[] = [
+  DEFAULT_CONTROLLER,
+  SWARM_CONTROLLER,
+  PARK_THE_BUS_CONTROLLER,
+  COUNTER_PRESS_CONTROLLER
+];
+
+/**
+ * Controller with the given id, falling back to the default
+ */
+export const getTeamController = (id: string | undefined): TeamController =>
+  TEAM_CONTROLLERS.find(c => c.id === id) ?? DEFAULT_CONTROLLER;
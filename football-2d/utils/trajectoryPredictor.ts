@@ -1,10 +1,26 @@
 // Trajectory Prediction Utility for Football Game AI
 // Predicts ball and player movement paths for strategic decision making
 
+import { Ball, TeamSide } from '../types/match';
+import { MatchConditions } from '../types/conditions';
+import { PhysicsProfile } from '../types/physics';
+import { CALM_CONDITIONS } from './matchConditions';
+import { DEFAULT_PHYSICS, advanceBall } from './physics';
+import { TICK_DT, TICK_RATE } from './fixedTimestep';
+
 // Constants from game physics
-const BASE_FRICTION = 0.94;
+const BASE_FRICTION = 0.94; // Players' friction in the engine
 const FIELD_WIDTH = 1000;
 const FIELD_HEIGHT = 600;
+const GOAL_TOP = 240;
+const GOAL_BOTTOM = 360;
+const CROSSBAR_HEIGHT = 40;
+const DEFAULT_STOP_SPEED = 0.5;
+const PASS_HORIZON = 0.5; // Seconds of a pass's roll checked for interceptions
+
+// Average player sprinting in the engine (px/tick); rated players pass their own values
+const DEFAULT_PLAYER_ACCELERATION = 0.8;
+const DEFAULT_PLAYER_MAX_SPEED = DEFAULT_PLAYER_ACCELERATION / (1 - BASE_FRICTION);
 
 export interface Position {
   x: number;
@@ -29,6 +45,26 @@ export interface BallTrajectory {
   landingPosition: Position | null; // Where ball will stop
   timeToStop: number; // Seconds until ball stops
   willExitField: boolean;
+  outOfPlay: (OutOfPlay & { t: number }) | null; // How and when it goes out, if it does in time
+}
+
+// The ball crossing a line, as the engine calls it
+export interface OutOfPlay {
+  type: 'GOAL' | 'CORNER' | 'GOAL KICK' | 'THROW IN';
+  team: TeamSide; // Team that scores or takes the restart
+  x: number;      // Where it crosses the line
+  y: number;
+}
+
+// What the predictor needs to know to predict the real ball
+export interface BallPredictionOptions {
+  z?: number;                    // Height of the ball (default on the ground)
+  vz?: number;                   // Its vertical speed
+  physics?: PhysicsProfile;      // How the ball moves (default DEFAULT_PHYSICS)
+  conditions?: MatchConditions;  // Wind and pitch (default calm)
+  stopSpeed?: number;            // Rolling slower than this counts as stopped (default 0.5)
+  lastTouch?: TeamSide | null;   // Team that touched it last, which decides restarts (default nobody)
+  sidesSwitched?: boolean;       // Whether the teams have changed ends (default false)
 }
 
 export interface PlayerTrajectory {
@@ -48,8 +84,56 @@ export interface InterceptionAnalysis {
   confidence: number; // 0-1
 }
 
+const isInGoalMouth = (y: number) => y > GOAL_TOP && y < GOAL_BOTTOM;
+
+// Same rule as the engine's getTeamAttacking: red attacks left until sides are switched
+const getTeamAttacking = (side: 'left' | 'right', sidesSwitched: boolean): TeamSide =>
+  (side === 'left') !== sidesSwitched ? 'red' : 'blue';
+
+const opponentOf = (team: TeamSide): TeamSide => team === 'red' ? 'blue' : 'red';
+
+// Share of the way from a to b where the line is crossed; a ball already over it crosses at a
+const crossingShare = (a: number, b: number, line: number) =>
+  b === a ? 0 : Math.max(0, Math.min(1, (line - a) / (b - a)));
+
 /**
- * Predicts ball trajectory considering friction
+ * What happens when the ball moves from `from` to `to`, or null while it stays in play.
+ * A ball that crosses the goal line under the crossbar between the posts is a goal; otherwise
+ * it is a corner if the defenders touched it last, a goal kick if not, and a throw-in over the touchline.
+ */
+export function getOutOfPlay(
+  from: Pick<Ball, 'x' | 'y' | 'z'>,
+  to: Pick<Ball, 'x' | 'y' | 'z'>,
+  lastTouch: TeamSide | null,
+  sidesSwitched: boolean
+): OutOfPlay | null {
+  if (to.x < 0 || to.x > FIELD_WIDTH) {
+    const lineX = to.x < 0 ? 0 : FIELD_WIDTH;
+    const share = crossingShare(from.x, to.x, lineX);
+    const y = from.y + (to.y - from.y) * share;
+    const z = from.z + (to.z - from.z) * share;
+    const at = { x: lineX, y: Math.max(0, Math.min(FIELD_HEIGHT, y)) };
+    const attacker = getTeamAttacking(to.x < 0 ? 'left' : 'right', sidesSwitched);
+    if (isInGoalMouth(at.y) && z < CROSSBAR_HEIGHT) return { type: 'GOAL', team: attacker, ...at };
+    return lastTouch === opponentOf(attacker)
+      ? { type: 'CORNER', team: attacker, ...at }
+      : { type: 'GOAL KICK', team: opponentOf(attacker), ...at };
+  }
+  if (to.y < 0 || to.y > FIELD_HEIGHT) {
+    const lineY = to.y < 0 ? 0 : FIELD_HEIGHT;
+    const x = from.x + (to.x - from.x) * crossingShare(from.y, to.y, lineY);
+    // Thrown by the side that did not touch it last; untouched balls go to the team defending that half
+    const team = lastTouch ? opponentOf(lastTouch) : getTeamAttacking(from.x < FIELD_WIDTH/2 ? 'right' : 'left', sidesSwitched);
+    return { type: 'THROW IN', team, x, y: lineY };
+  }
+  return null;
+}
+
+/**
+ * Predicts the ball's path by running the engine's own ball physics tick by tick (exact for a
+ * ball nobody touches), recording a point every timeStep. Like the real game it stops where the
+ * ball leaves the pitch and reports the goal or restart in `outOfPlay`. Pass the ball's height,
+ * the match's physics and conditions and who touched it last in `options` to predict the real ball.
  */
 export function predictBallTrajectory(
   ballX: number,
@@ -57,62 +141,57 @@ export function predictBallTrajectory(
   ballVx: number,
   ballVy: number,
   predictionTime: number = 3.0, // seconds
-  timeStep: number = 0.1 // seconds
+  timeStep: number = 0.1, // seconds
+  spin: number = 0,
+  options: BallPredictionOptions = {}
 ): BallTrajectory {
+  const {
+    physics = DEFAULT_PHYSICS,
+    conditions = CALM_CONDITIONS,
+    stopSpeed = DEFAULT_STOP_SPEED,
+    lastTouch = null,
+    sidesSwitched = false
+  } = options;
   const path: TrajectoryPoint[] = [];
-
-  let x = ballX;
-  let y = ballY;
-  let vx = ballVx;
-  let vy = ballVy;
-  let t = 0;
-
-  // Simulate forward in time
-  while (t < predictionTime) {
-    // Apply friction
-    vx *= BASE_FRICTION;
-    vy *= BASE_FRICTION;
-
-    // Update position
-    x += vx;
-    y += vy;
-
-    // Bounce off walls
-    if (x < 0 || x > FIELD_WIDTH) {
-      vx *= -0.8; // Energy loss on bounce
-      x = Math.max(0, Math.min(FIELD_WIDTH, x));
-    }
-    if (y < 0 || y > FIELD_HEIGHT) {
-      vy *= -0.8;
-      y = Math.max(0, Math.min(FIELD_HEIGHT, y));
+  const ball: Ball = { x: ballX, y: ballY, z: options.z ?? 0, vx: ballVx, vy: ballVy, vz: options.vz ?? 0, spin };
+  const ticks = Math.round(predictionTime * TICK_RATE);
+  const ticksPerPoint = Math.max(1, Math.round(timeStep * TICK_RATE));
+  let outOfPlay: BallTrajectory['outOfPlay'] = null;
+
+  for (let tick = 1; tick <= ticks; tick++) {
+    const before = { x: ball.x, y: ball.y, z: ball.z };
+    advanceBall(ball, TICK_DT, physics, conditions);
+
+    // Out of play: the path ends on the line
+    const out = getOutOfPlay(before, ball, lastTouch, sidesSwitched);
+    if (out) {
+      outOfPlay = { ...out, t: tick / TICK_RATE };
+      path.push({ x: out.x, y: out.y, t: outOfPlay.t, velocity: { vx: ball.vx, vy: ball.vy } });
+      break;
     }
 
-    // Record position
-    path.push({
-      x,
-      y,
-      t: t + timeStep,
-      velocity: { vx, vy }
-    });
-
-    t += timeStep;
-
-    // Stop if ball has basically stopped moving
-    const speed = Math.sqrt(vx * vx + vy * vy);
-    if (speed < 0.5) {
-      break;
+    // Stop once it has basically stopped rolling
+    const stopped = ball.z === 0 && ball.vz === 0 && Math.hypot(ball.vx, ball.vy) < stopSpeed;
+    if (tick % ticksPerPoint === 0 || stopped || tick === ticks) {
+      path.push({
+        x: ball.x,
+        y: ball.y,
+        t: tick / TICK_RATE,
+        velocity: { vx: ball.vx, vy: ball.vy }
+      });
     }
+    if (stopped) break;
   }
 
   const lastPoint = path[path.length - 1] || { x: ballX, y: ballY, t: 0 };
-  const willExitField = x < 0 || x > FIELD_WIDTH || y < 0 || y > FIELD_HEIGHT;
 
   return {
     currentPosition: { x: ballX, y: ballY },
     predictedPath: path,
     landingPosition: { x: lastPoint.x, y: lastPoint.y },
     timeToStop: lastPoint.t,
-    willExitField
+    willExitField: outOfPlay !== null,
+    outOfPlay
   };
 }
 
@@ -160,34 +239,52 @@ export function predictPlayerTrajectory(
 }
 
 /**
- * Analyzes if a player can intercept the ball
+ * Distance a player starting from rest can cover in the given number of ticks,
+ * accelerating up to their top speed
+ */
+function reachableDistance(ticks: number, maxSpeed: number, acceleration: number): number {
+  const rampTicks = maxSpeed / acceleration;
+  if (ticks <= rampTicks) return 0.5 * acceleration * ticks * ticks;
+  return maxSpeed * (ticks - rampTicks / 2);
+}
+
+/**
+ * Analyzes if a player can intercept the ball.
+ * Speeds are in px per tick; each predicted point is timed in seconds from now.
+ * A moving player is assumed to carry on drifting with their current velocity.
  */
 export function analyzeInterception(
   playerX: number,
   playerY: number,
   playerMaxSpeed: number,
-  ballTrajectory: BallTrajectory
+  ballTrajectory: BallTrajectory,
+  playerAcceleration: number = DEFAULT_PLAYER_ACCELERATION,
+  playerVelocity: Velocity = { vx: 0, vy: 0 }
 ): InterceptionAnalysis {
   const INTERCEPT_RADIUS = 15; // Player can intercept within this radius
 
   // Check each point in ball's trajectory
   for (const point of ballTrajectory.predictedPath) {
+    const ticks = Math.round(point.t * TICK_RATE);
+    const drift = BASE_FRICTION * (1 - Math.pow(BASE_FRICTION, ticks)) / (1 - BASE_FRICTION);
     const distance = Math.sqrt(
-      Math.pow(point.x - playerX, 2) + Math.pow(point.y - playerY, 2)
+      Math.pow(point.x - (playerX + playerVelocity.vx * drift), 2) +
+      Math.pow(point.y - (playerY + playerVelocity.vy * drift), 2)
     );
 
-    const timeAvailable = point.t;
-    const requiredSpeed = distance / timeAvailable;
+    const reach = reachableDistance(ticks, playerMaxSpeed, playerAcceleration);
+    // The player only has to get within INTERCEPT_RADIUS of the ball
+    const gap = Math.max(0, distance - INTERCEPT_RADIUS);
 
     // Can player reach this point in time?
-    if (requiredSpeed <= playerMaxSpeed && distance > INTERCEPT_RADIUS) {
-      const confidence = Math.max(0, 1 - requiredSpeed / playerMaxSpeed);
+    if (gap <= reach) {
+      const confidence = Math.max(0, 1 - gap / reach);
 
       return {
         isPossible: true,
         interceptPoint: { x: point.x, y: point.y },
-        timeToReach: timeAvailable,
-        requiredSpeed,
+        timeToReach: point.t,
+        requiredSpeed: gap / ticks,
         confidence
       };
     }
@@ -235,8 +332,18 @@ export function predictAllPlayerTrajectories(
   }));
 }
 
+// Player taking part in a pass; capability defaults to an average player
+export interface PassPlayer {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  maxSpeed?: number;
+  acceleration?: number;
+}
+
 /**
- * Evaluates pass quality based on trajectories
+ * Evaluates pass quality based on trajectories; `options` are the physics and conditions the pass is played in
  */
 export function evaluatePassQuality(
   fromX: number,
@@ -244,8 +351,9 @@ export function evaluatePassQuality(
   toX: number,
   toY: number,
   passPower: number,
-  opponents: Array<{ x: number; y: number; vx: number; vy: number }>,
-  teammate: { x: number; y: number; vx: number; vy: number }
+  opponents: Array<PassPlayer>,
+  teammate: PassPlayer,
+  options: BallPredictionOptions = {}
 ): {
   quality: number; // 0-1
   willReachTeammate: boolean;
@@ -260,14 +368,16 @@ export function evaluatePassQuality(
   const passVx = (dx / distance) * passPower;
   const passVy = (dy / distance) * passPower;
 
-  const passTrajectory = predictBallTrajectory(fromX, fromY, passVx, passVy, 3.0);
+  const passTrajectory = predictBallTrajectory(fromX, fromY, passVx, passVy, PASS_HORIZON, 1 / TICK_RATE, 0, options);
 
   // Check if teammate can reach ball
   const teammateIntercept = analyzeInterception(
     teammate.x,
     teammate.y,
-    5.0, // Assume max speed
-    passTrajectory
+    teammate.maxSpeed ?? DEFAULT_PLAYER_MAX_SPEED,
+    passTrajectory,
+    teammate.acceleration,
+    teammate
   );
 
   // Check opponent interception risks
@@ -276,12 +386,16 @@ export function evaluatePassQuality(
     const opponentIntercept = analyzeInterception(
       opponent.x,
       opponent.y,
-      4.5, // Slightly slower than teammate
-      passTrajectory
+      opponent.maxSpeed ?? DEFAULT_PLAYER_MAX_SPEED,
+      passTrajectory,
+      opponent.acceleration,
+      opponent
     );
 
     if (opponentIntercept.isPossible) {
-      maxOpponentThreat = Math.max(maxOpponentThreat, opponentIntercept.confidence);
+      // An opponent who gets to the ball before the teammate wins it
+      const first = !teammateIntercept.isPossible || opponentIntercept.timeToReach! <= teammateIntercept.timeToReach!;
+      maxOpponentThreat = Math.max(maxOpponentThreat, first ? 1 : opponentIntercept.confidence);
     }
   }
 
@@ -320,7 +434,8 @@ export function findOptimalInterceptPoint(
   playerX: number,
   playerY: number,
   playerMaxSpeed: number,
-  ballTrajectory: BallTrajectory
+  ballTrajectory: BallTrajectory,
+  playerAcceleration: number = DEFAULT_PLAYER_ACCELERATION
 ): Position | null {
   let bestPoint: Position | null = null;
   let bestScore = -Infinity;
@@ -331,9 +446,8 @@ export function findOptimalInterceptPoint(
     );
 
     const timeAvailable = point.t;
-    const requiredSpeed = distance / timeAvailable;
 
-    if (requiredSpeed <= playerMaxSpeed) {
+    if (distance <= reachableDistance(Math.round(point.t * TICK_RATE), playerMaxSpeed, playerAcceleration)) {
       // Prefer points that are earlier in time and closer
       const score = (1 / timeAvailable) * (1 / (distance + 1));
 
@@ -1,9 +1,10 @@
 // Trajectory Predictor Wrapper
 // Automatically uses custom algorithm if available, otherwise falls back to default
 
-import { predictBallTrajectory as predictBallTrajectoryDefault, BallTrajectory } from './trajectoryPredictor';
-import { predictBallTrajectoryCustom } from './customTrajectoryPredictor';
+import { predictBallTrajectory as predictBallTrajectoryDefault, BallPredictionOptions, BallTrajectory } from './trajectoryPredictor';
+import { getAlgorithmPhysics, predictBallTrajectoryCustom } from './customTrajectoryPredictor';
 import { CustomAlgorithmDefinition } from '@/types/customAlgorithm';
+import { PhysicsProfile } from '@/types/physics';
 
 let cachedCustomAlgorithm: CustomAlgorithmDefinition | null = null;
 let lastCheck = 0;
@@ -42,7 +43,8 @@ function getCustomAlgorithm(): CustomAlgorithmDefinition | null {
 
 /**
  * Predict ball trajectory using custom algorithm if available
- * Falls back to default algorithm automatically
+ * Falls back to default algorithm automatically. Pass the ball's height and the match's
+ * physics and conditions in `options` to predict the real ball.
  */
 export function predictBallTrajectory(
   ballX: number,
@@ -50,13 +52,15 @@ export function predictBallTrajectory(
   ballVx: number,
   ballVy: number,
   predictionTime: number = 3.0,
-  timeStep: number = 0.1
+  timeStep: number = 0.1,
+  spin: number = 0,
+  options: BallPredictionOptions = {}
 ): BallTrajectory {
   const customAlgo = getCustomAlgorithm();
 
   if (customAlgo) {
     try {
-      return predictBallTrajectoryCustom(ballX, ballY, ballVx, ballVy, customAlgo);
+      return predictBallTrajectoryCustom(ballX, ballY, ballVx, ballVy, customAlgo, spin, options);
     } catch (e) {
       console.error('Custom algorithm failed, falling back to default:', e);
       // Fall through to default
@@ -64,7 +68,7 @@ export function predictBallTrajectory(
   }
 
   // Use default algorithm
-  return predictBallTrajectoryDefault(ballX, ballY, ballVx, ballVy, predictionTime, timeStep);
+  return predictBallTrajectoryDefault(ballX, ballY, ballVx, ballVy, predictionTime, timeStep, spin, options);
 }
 
 /**
@@ -82,6 +86,14 @@ export function getActiveAlgorithmName(): string {
   return customAlgo ? customAlgo.name : 'Default Physics';
 }
 
+/**
+ * Physics profile of the active custom algorithm, for playing the match on it
+ */
+export function getCustomAlgorithmPhysics(): PhysicsProfile | null {
+  const customAlgo = getCustomAlgorithm();
+  return customAlgo ? getAlgorithmPhysics(customAlgo) : null;
+}
+
 /**
  * Clear custom algorithm (revert to default)
  */